@@ -0,0 +1,21 @@
+declare namespace accessors {
+    class Collection {
+        get size(): number;
+        get name(): string;
+        set name(value: string);
+        set onChange(handler: () => void);
+        private get secret(): string;
+        static get instances(): number;
+    }
+
+    abstract class Shape {
+        abstract get area(): number;
+    }
+
+    interface Sized {
+        get width(): number;
+        set width(value: number);
+        get height(): number;
+        set type(value: string);
+    }
+}
@@ -0,0 +1,35 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package conditionaltypes {
+
+@js.native
+trait Props extends js.Object {
+  var title: String = js.native
+  var count: js.UndefOr[Double] = js.native
+  def onClick(event: MouseEvent): Unit = js.native
+}
+
+@js.native
+@JSGlobalScope
+object Conditionaltypes extends js.Object {
+  type Title = String
+  type Count = js.UndefOr[Double]
+  type Handler = js.Function1[MouseEvent, Unit]
+  type Item = String
+  type Second = Boolean
+  type IsString = Boolean
+  type Known = Double
+  type Fallback = Null
+  type SameLiteral = Boolean
+  type SameNumber = Double
+  type Unwrap[T] = js.Any | T
+  type NonNullable[T] = T
+  type ElementOf[T] = js.Any | String
+  def unwrapCount(value: js.Promise[Double]): Unwrap[js.Promise[Double]] = js.native
+  def titleOf(props: Props): String | js.UndefOr[Double] = js.native
+}
+
+}
\ No newline at end of file
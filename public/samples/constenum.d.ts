@@ -0,0 +1,36 @@
+declare namespace constenum {
+    const enum Direction {
+        Up = 1,
+        Down,
+        Left,
+        Right
+    }
+
+    const enum FileAccess {
+        None,
+        Read = 1 << 1,
+        Write = 1 << 2,
+        ReadWrite = Read | Write,
+        G = "123".length
+    }
+
+    const enum Theme {
+        Light = "light",
+        Dark = "dark",
+        "high-contrast" = "hc"
+    }
+
+    const enum Limits {
+        Unbounded = 1 / 0,
+        Lowest = -Infinity,
+        Unknown = 0 / 0
+    }
+
+    enum Flags {
+        None = 0,
+        Visible = 1 << 0,
+        Enabled = 1 << 1,
+        Default = Visible | Enabled,
+        Negative = -(Enabled)
+    }
+}
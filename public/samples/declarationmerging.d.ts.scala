@@ -0,0 +1,91 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package declarationmerging {
+
+@js.native
+trait Box extends js.Object {
+  var width: Double = js.native
+  var height: Double = js.native
+  def scale(factor: Double): Box = js.native
+}
+
+@js.native
+@JSGlobal
+class Album extends js.Object {
+  var label: Album.AlbumLabel = js.native
+}
+@js.native
+@JSGlobal
+object Album extends js.Object {
+  def create(name: String): Album = js.native
+  @js.native
+  class AlbumLabel extends js.Object {
+    var name: String = js.native
+  }
+  def fromJson(json: String): Album = js.native
+}
+
+@js.native
+@JSGlobal
+class Point extends js.Object {
+  var x: Double = js.native
+  var y: Double = js.native
+}
+
+@js.native
+@JSGlobal
+object buildLabel extends js.Object {
+  def apply(name: String): String = js.native
+  def suffix: String = js.native
+  def prefix: String = js.native
+}
+
+@js.native
+trait Options extends js.Object {
+  var verbose: js.UndefOr[Boolean] = js.native
+  var nested: Options.Nested = js.native
+}
+@js.native
+@JSGlobal
+object Options extends js.Object {
+  @js.native
+  trait Nested extends js.Object {
+    var level: Double = js.native
+  }
+  @js.native
+  trait Defaults extends js.Object {
+    var verbose: Boolean = js.native
+  }
+
+  @js.native
+  sealed trait Mode extends js.Any
+
+  @js.native
+  object Mode extends js.Object {
+    val Fast: Mode = js.native // 0
+    val Safe: Mode = js.native // 1
+    @JSBracketAccess
+    def apply(value: Mode): String = js.native
+  }
+  val defaults: Defaults = js.native
+}
+
+@js.native
+sealed trait Color extends js.Any
+
+@js.native
+@JSGlobal("Color")
+object Color extends js.Object {
+  val Red: Color = js.native // 0
+  val Green: Color = js.native // 1
+  @JSBracketAccess
+  def apply(value: Color): String = js.native
+  val all: js.Array[Color] = js.native
+  def parse(name: String): Color = js.native
+}
+
+
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+/** @deprecated Use {@link Canvas} instead. */
+declare class Surface {
+    width: number;
+}
+
+declare class Canvas {
+    /**
+     * Draws the canvas.
+     * @deprecated Use "render" instead.
+     */
+    draw(): void;
+    render(): void;
+    /** @deprecated */
+    static legacyMode: boolean;
+}
+
+interface Options {
+    /** @deprecated Ignored since version 2. */
+    antialias?: boolean;
+}
+
+declare enum Quality {
+    Low,
+    /** @deprecated Renamed to High. */
+    Best,
+    High
+}
+
+/** @deprecated Use Canvas.render. */
+declare function draw(canvas: Canvas): void;
+
+declare const version: string;
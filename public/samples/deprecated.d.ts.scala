@@ -0,0 +1,66 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package deprecated {
+
+/** @deprecated Use [[Canvas]] instead. */
+@deprecated("Use Canvas instead.", "")
+@js.native
+@JSGlobal
+class Surface extends js.Object {
+  var width: Double = js.native
+}
+
+@js.native
+@JSGlobal
+class Canvas extends js.Object {
+  /**
+   * Draws the canvas.
+   * @deprecated Use "render" instead.
+   */
+  @deprecated("Use \"render\" instead.", "")
+  def draw(): Unit = js.native
+  def render(): Unit = js.native
+}
+@js.native
+@JSGlobal
+object Canvas extends js.Object {
+  /** @deprecated */
+  @deprecated("", "")
+  var legacyMode: Boolean = js.native
+}
+
+@js.native
+trait Options extends js.Object {
+  /** @deprecated Ignored since version 2. */
+  @deprecated("Ignored since version 2.", "")
+  var antialias: js.UndefOr[Boolean] = js.native
+}
+
+@js.native
+sealed trait Quality extends js.Any
+
+@js.native
+@JSGlobal("Quality")
+object Quality extends js.Object {
+  val Low: Quality = js.native // 0
+  /** @deprecated Renamed to High. */
+  @deprecated("Renamed to High.", "")
+  val Best: Quality = js.native // 1
+  val High: Quality = js.native // 2
+  @JSBracketAccess
+  def apply(value: Quality): String = js.native
+}
+
+@js.native
+@JSGlobalScope
+object Deprecated extends js.Object {
+  val version: String = js.native
+  /** @deprecated Use Canvas.render. */
+  @deprecated("Use Canvas.render.", "")
+  def draw(canvas: Canvas): Unit = js.native
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+declare module "pixi.js" {
+    export const VERSION: string;
+
+    export interface IPoint {
+        x: number;
+        y: number;
+    }
+
+    export class Sprite {
+        constructor(texture: Texture);
+        texture: Texture;
+        static from(source: string): Sprite;
+    }
+
+    export class Texture {
+        width: number;
+        height: number;
+    }
+
+    export enum BlendModes {
+        NORMAL, ADD
+    }
+
+    export type Tint = number;
+
+    export function autoDetectRenderer(width: number, height: number): any;
+
+    export default class Application {
+        stage: Sprite;
+    }
+}
+
+declare module "@pixi/utils" {
+    namespace utils {
+        function hex2string(hex: number): string;
+        class EventEmitter {
+            emit(event: string): boolean;
+        }
+    }
+    export = utils;
+}
+
+declare module "left-pad" {
+    function leftPad(str: string, len: number): string;
+    export = leftPad;
+}
@@ -0,0 +1,62 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package functiontypes {
+
+package functiontypes {
+
+@js.native
+trait Emitter extends js.Object {
+  def on(event: String, listener: js.ThisFunction3[Emitter, String, js.Any, js.Any, Unit]): this.type = js.native
+}
+
+@js.native
+@JSGlobal("functiontypes")
+object Functiontypes extends js.Object {
+  type Nullary = js.Function0[Unit]
+  type Ternary = js.Function3[String, Double, Boolean, String]
+  type Quaternary[T] = js.Function4[T, T, T, T, T]
+  type Untyped = js.Function3[js.Any, js.Any, js.Any, js.Any]
+  type Handler = js.ThisFunction1[HTMLElement, Event, Boolean]
+  type ThisOnly = js.ThisFunction0[Window, Unit]
+  type Variadic = VariadicFunction
+  type LeadingAndVariadic = LeadingAndVariadicFunction
+  type ThisVariadic = ThisVariadicFunction
+  type Collect[T] = CollectFunction[T]
+  def each(callback: CallbackFunction): Unit = js.native
+}
+
+}
+
+package functiontypes {
+
+@js.native
+trait VariadicFunction extends js.Function {
+  def apply(args: String*): Unit = js.native
+}
+
+@js.native
+trait LeadingAndVariadicFunction extends js.Function {
+  def apply(format: String, args: js.Any*): String = js.native
+}
+
+@js.native
+trait ThisVariadicFunction extends js.Function {
+  def call(thisArg: Window, args: js.Any*): Unit = js.native
+}
+
+@js.native
+trait CollectFunction[T] extends js.Function {
+  def apply(first: T, rest: T*): js.Array[T] = js.native
+}
+
+@js.native
+trait CallbackFunction extends js.Function {
+  def apply(emitters: Emitter*): Unit = js.native
+}
+
+}
+
+}
\ No newline at end of file
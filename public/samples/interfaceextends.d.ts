@@ -0,0 +1,27 @@
+declare namespace interfaceextends {
+    interface Shape {
+        color: string;
+    }
+
+    interface PenStroke {
+        penWidth: number;
+    }
+
+    interface Square extends Shape {
+        sideLength: number;
+    }
+
+    interface FilledSquare extends Shape, PenStroke {
+        fill: boolean;
+    }
+
+    interface Container<T> {
+        items: T[];
+    }
+
+    interface ShapeContainer extends Container<Shape> {
+        clear(): void;
+    }
+
+    interface TypedList<T> extends ReadonlyArray<T> {}
+}
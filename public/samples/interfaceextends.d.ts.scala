@@ -0,0 +1,46 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package interfaceextends {
+
+package interfaceextends {
+
+@js.native
+trait Shape extends js.Object {
+  var color: String = js.native
+}
+
+@js.native
+trait PenStroke extends js.Object {
+  var penWidth: Double = js.native
+}
+
+@js.native
+trait Square extends Shape {
+  var sideLength: Double = js.native
+}
+
+@js.native
+trait FilledSquare extends Shape with PenStroke {
+  var fill: Boolean = js.native
+}
+
+@js.native
+trait Container[T] extends js.Object {
+  var items: js.Array[T] = js.native
+}
+
+@js.native
+trait ShapeContainer extends Container[Shape] {
+  def clear(): Unit = js.native
+}
+
+@js.native
+trait TypedList[T] extends js.Array[T] {
+}
+
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package jsdoc {
+
+/**
+ * A two-dimensional vector.
+ *
+ * Vectors are immutable, see [[Vector.add]] and [[Matrix matrices]].
+ */
+@js.native
+@JSGlobal
+class Vector protected () extends js.Object {
+  /** Creates the vector (x, y). */
+  def this(x: Double, y: Double) = this()
+  /** Horizontal component. */
+  def x: Double = js.native
+  /**
+   * Adds another vector to this one.
+   * @param other The vector to add.
+   * @return The sum of both vectors.
+   * @example {{{
+   * const sum = new Vector(1, 2).add(new Vector(3, 4));
+   * }}}
+   */
+  def add(other: Vector): Vector = js.native
+}
+@js.native
+@JSGlobal
+object Vector extends js.Object {
+  /** The vector of length 1 pointing right. */
+  val unit: Vector = js.native
+}
+
+/** A matrix of numbers. */
+@js.native
+trait Matrix extends js.Object {
+  /** Number of rows, see [[Matrix.columns]]. */
+  var rows: Double = js.native
+  /** @return The transposed matrix. */
+  def transpose(): Matrix = js.native
+}
+
+/** Ways of rounding numbers. */
+@js.native
+sealed trait Rounding extends js.Any
+
+@js.native
+@JSGlobal("Rounding")
+object Rounding extends js.Object {
+  /** Rounds towards zero. */
+  val Truncate: Rounding = js.native // 0
+  /** Rounds to the nearest integer. */
+  val Nearest: Rounding = js.native // 1
+  @JSBracketAccess
+  def apply(value: Rounding): String = js.native
+}
+
+@js.native
+@JSGlobalScope
+object Jsdoc extends js.Object {
+  /** The origin. */
+  val origin: Vector = js.native
+  /**
+   * Parses a vector from its string form.
+   * @param text Coordinates separated by a comma.
+   * @throws When the text is not a vector.
+   */
+  def parseVector(text: String): Vector = js.native
+}
+
+}
\ No newline at end of file
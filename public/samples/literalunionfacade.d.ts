@@ -0,0 +1,14 @@
+declare namespace literalunionfacade {
+    type Align = "left" | "right" | "center";
+    type Theme = 'vs' | 'vs-dark' | 'hc-black' | 'default';
+    type Level = 0 | 1 | 2 | -1;
+    type Mixed = "auto" | number;
+
+    interface TextOptions {
+        align: Align;
+        theme?: Theme;
+        level: Level;
+        width: Mixed;
+        fallback: "start" | "end";
+    }
+}
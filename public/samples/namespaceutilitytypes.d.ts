@@ -0,0 +1,22 @@
+declare namespace geometry {
+    interface Vertex {
+        x: number;
+        y: number;
+    }
+
+    interface Shape {
+        origin: Vertex;
+        vertices: Vertex[];
+        label?: string;
+    }
+
+    function update(shape: Shape, changes: Partial<Shape>): Shape;
+    function outline(shape: Pick<Shape, "vertices">): Vertex[];
+
+    namespace layout {
+        function place(shape: Readonly<Shape>): void;
+    }
+}
+
+declare function reset(changes: Partial<geometry.Shape>): void;
+declare const defaults: Partial<geometry.Shape>;
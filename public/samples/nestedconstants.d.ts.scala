@@ -0,0 +1,38 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package nestedconstants {
+
+@js.native
+@JSGlobal
+object NS extends js.Object {
+  def apply(): Unit = js.native
+  @js.native
+  sealed trait Level extends js.Any
+
+  @js.native
+  sealed trait Align extends js.Any
+
+  @js.native
+  object Inner extends js.Object {
+    @js.native
+    sealed trait Mode extends js.Any
+  }
+}
+
+object NS_Level {
+  val Low: NS.Level = 1.asInstanceOf[NS.Level]
+  val High: NS.Level = 2.asInstanceOf[NS.Level]
+}
+object NS_Align {
+  val left: NS.Align = "left".asInstanceOf[NS.Align]
+  val right: NS.Align = "right".asInstanceOf[NS.Align]
+}
+object NS_Inner_Mode {
+  val On: NS.Inner.Mode = "on".asInstanceOf[NS.Inner.Mode]
+  val Off: NS.Inner.Mode = "off".asInstanceOf[NS.Inner.Mode]
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+declare namespace optional {
+    interface Options {
+        name?: string;
+        readonly id?: number;
+        timeout: number | undefined;
+        label?: string | undefined;
+        parent: Options | null | undefined;
+        onClose?(reason: string): void;
+        onError?(error: Error): void;
+        onError?(message: string, code: number): boolean;
+        settings?: {
+            verbose?: boolean;
+        };
+    }
+
+    class Widget {
+        title?: string;
+        static defaults?: Options;
+        render?(): void;
+        render?(container: HTMLElement): void;
+        find(selector?: string): Widget | undefined;
+    }
+}
@@ -0,0 +1,17 @@
+declare const defaultLevel: number;
+declare function format(value: number, digits?: number): string;
+declare function log(message: string, level?: number, ...args: any[]): void;
+
+declare namespace parameters {
+    class Logger {
+        constructor(name?: string, ...tags: string[]);
+        write(type: string, object?: any): void;
+        bind(this: Logger, { prefix }: { prefix: string }): Logger;
+    }
+
+    interface Matcher {
+        match(val: string, ...patterns: RegExp[]): boolean;
+    }
+
+    function join(separator: string, ...parts: string[]): string;
+}
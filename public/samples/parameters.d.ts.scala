@@ -0,0 +1,40 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package parameters {
+
+package parameters {
+
+@js.native
+@JSGlobal("parameters.Logger")
+class Logger extends js.Object {
+  def this(name: String, tags: String*) = this()
+  def write(`type`: String, `object`: js.Any = js.native): Unit = js.native
+  def bind(arg0: js.Any): Logger = js.native
+}
+
+@js.native
+trait Matcher extends js.Object {
+  def `match`(`val`: String, patterns: js.RegExp*): Boolean = js.native
+}
+
+@js.native
+@JSGlobal("parameters")
+object Parameters extends js.Object {
+  def join(separator: String, parts: String*): String = js.native
+}
+
+}
+@js.native
+@JSGlobalScope
+object Parameters extends js.Object {
+  val defaultLevel: Double = js.native
+  def format(value: Double, digits: Double = js.native): String = js.native
+  def log(message: String): Unit = js.native
+  def log(message: String, level: Double, args: js.Any*): Unit = js.native
+}
+
+
+}
\ No newline at end of file
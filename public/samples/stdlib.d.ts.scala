@@ -0,0 +1,33 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package stdlib {
+
+package stdlib {
+
+@js.native
+trait Cache[K, V] extends js.Object {
+  def load(key: K): js.Promise[V] = js.native
+  var entries: js.Map[K, V] = js.native
+  var snapshot: js.Map[K, V] = js.native
+  var keys: js.Set[K] = js.native
+  var owners: js.WeakMap[js.Object, K] = js.native
+  var updatedAt: js.Date = js.native
+  var pattern: js.RegExp = js.native
+  var lastError: js.Error | Null = js.native
+  var failure: js.TypeError = js.native
+  def values(): js.Iterable[V] = js.native
+  def iterator(): js.Iterator[V] = js.native
+  var tag: js.Symbol = js.native
+  var marker: js.Symbol = js.native
+  var size: js.BigInt = js.native
+  var metadata: js.Any = js.native
+  var callback: js.Function = js.native
+  var thenable: js.Thenable[V] = js.native
+}
+
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package templateliteral {
+
+@js.native
+@JSGlobal
+class Registry extends js.Object {
+  def handler(event: String, callback: js.Function0[Unit]): Unit = js.native // `on${string}`
+  def total: js.BigInt = js.native
+}
+@js.native
+@JSGlobal
+object Registry extends js.Object {
+  val key: js.Symbol = js.native
+}
+
+@js.native
+trait Options extends js.Object {
+  var prefix: js.UndefOr[String] = js.native // `${string}-`
+}
+
+@js.native
+@JSGlobalScope
+object Templateliteral extends js.Object {
+  type EventName = String // `on${string}`
+  type Size = String // `${number}px`; `${number}em`
+  type Alignment = String // `center-${"x" | "y"}`
+  type Label = String | Double // `label-${string}`
+  type Big = js.BigInt
+  type Offset = js.BigInt
+  type Negative = Int
+  val iteratorKey: js.Symbol = js.native
+}
+
+}
\ No newline at end of file
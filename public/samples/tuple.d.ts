@@ -0,0 +1,18 @@
+declare namespace tuple {
+    type Pair = [string, number];
+    type Triple<T> = [T, T, boolean];
+    type Single = [string];
+    type Empty = [];
+    type OptionalElement = [string, number?];
+    type RestElement = [string, ...number[]];
+    type Named = [x: number, y: number];
+    type NamedOptional = [name: string, age?: number];
+    type NamedRest = [first: string, ...rest: boolean[]];
+    type ReadonlyPair = readonly [string, number];
+    type ReadonlyList = readonly string[];
+
+    interface Entries {
+        entries(): Array<[string, any]>;
+        range: [number, number];
+    }
+}
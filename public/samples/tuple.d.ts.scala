@@ -0,0 +1,34 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package tuple {
+
+package tuple {
+
+@js.native
+trait Entries extends js.Object {
+  def entries(): js.Array[js.Tuple2[String, js.Any]] = js.native
+  var range: js.Tuple2[Double, Double] = js.native
+}
+
+@js.native
+@JSGlobal("tuple")
+object Tuple extends js.Object {
+  type Pair = js.Tuple2[String, Double]
+  type Triple[T] = js.Tuple3[T, T, Boolean]
+  type Single = js.Array[String]
+  type Empty = js.Array[js.Any]
+  type OptionalElement = js.Array[String | Double]
+  type RestElement = js.Array[String | Double]
+  type Named = js.Tuple2[Double, Double]
+  type NamedOptional = js.Array[String | Double]
+  type NamedRest = js.Array[String | Boolean]
+  type ReadonlyPair = js.Tuple2[String, Double]
+  type ReadonlyList = js.Array[_ <: String]
+}
+
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package utilitytypes {
+
+@js.native
+trait Named extends js.Object {
+  var name: String = js.native
+}
+
+@js.native
+trait User extends Named {
+  /** Unique identifier. */
+  def id: Double = js.native
+  var email: js.UndefOr[String] = js.native
+  def greet(greeting: String): String = js.native
+}
+
+@js.native
+trait UserPatch extends js.Object {
+  var name: js.UndefOr[String] = js.native
+  /** Unique identifier. */
+  def id: js.UndefOr[Double] = js.native
+  var email: js.UndefOr[String] = js.native
+  var greet: js.UndefOr[js.Function1[String, String]] = js.native
+}
+
+@js.native
+trait CompleteUser extends js.Object {
+  var name: String = js.native
+  /** Unique identifier. */
+  def id: Double = js.native
+  var email: String = js.native
+  def greet(greeting: String): String = js.native
+}
+
+@js.native
+trait FrozenUser extends js.Object {
+  def name: String = js.native
+  /** Unique identifier. */
+  def id: Double = js.native
+  def email: js.UndefOr[String] = js.native
+  def greet(greeting: String): String = js.native
+}
+
+@js.native
+trait UserSummary extends js.Object {
+  var name: String = js.native
+  /** Unique identifier. */
+  def id: Double = js.native
+}
+
+@js.native
+trait AnonymousUser extends js.Object {
+  /** Unique identifier. */
+  def id: Double = js.native
+  def greet(greeting: String): String = js.native
+}
+
+@js.native
+trait OptionalSummary extends js.Object {
+  /** Unique identifier. */
+  def id: js.UndefOr[Double] = js.native
+  var email: js.UndefOr[String] = js.native
+}
+
+@js.native
+trait MutableUser extends js.Object {
+  var name: String = js.native
+  /** Unique identifier. */
+  var id: Double = js.native
+  var email: js.UndefOr[String] = js.native
+  def greet(greeting: String): String = js.native
+}
+
+@js.native
+trait Point extends js.Object {
+  def x: Double = js.native
+  def y: Double = js.native
+}
+
+@js.native
+trait UserStore extends js.Object {
+  var defaults: PartialUser = js.native
+  def find(query: PickUserNameEmail): js.Array[User] = js.native
+  def update[T](patch: js.Object): Unit = js.native
+}
+
+@js.native
+@JSGlobalScope
+object Utilitytypes extends js.Object {
+  type UsersById = js.Dictionary[User]
+  type Flags = js.Dictionary[Boolean]
+  type Scores = js.Dictionary[Double]
+  def updateUser(id: Double, patch: PartialUser): User = js.native
+  def countByName(items: js.Array[Named]): js.Dictionary[Double] = js.native
+  def createUser(user: OmitUserId): User = js.native
+}
+
+@js.native
+trait PartialUser extends js.Object {
+  var name: js.UndefOr[String] = js.native
+  /** Unique identifier. */
+  def id: js.UndefOr[Double] = js.native
+  var email: js.UndefOr[String] = js.native
+  var greet: js.UndefOr[js.Function1[String, String]] = js.native
+}
+
+@js.native
+trait PickUserNameEmail extends js.Object {
+  var name: String = js.native
+  var email: js.UndefOr[String] = js.native
+}
+
+@js.native
+trait OmitUserId extends js.Object {
+  var name: String = js.native
+  var email: js.UndefOr[String] = js.native
+  def greet(greeting: String): String = js.native
+}
+
+}
\ No newline at end of file
@@ -9,6 +9,7 @@
  *   INPUT_FOLDER=./input node run.ts              # Custom input folder
  *   OUTPUT_FOLDER=./converted node run.ts         # Custom output folder
  *   INPUT_FOLDER=./input OUTPUT_FOLDER=./converted node run.ts  # Both custom
+ *   OPTIONS_FILE=./options.json node run.ts        # Custom converter options
  * 
  * Features:
  * - Recursively scans subdirectories
@@ -16,19 +17,32 @@
  * - Generates package names based on file paths
  * - Creates output directories automatically
  * - Reports conversion progress and success/failure counts
+ * - Reports constructs that could not be converted faithfully, with their position
  * 
  * Configuration via environment variables:
  * - INPUT_FOLDER: Source directory containing .d.ts files (default: ./samples)
  * - OUTPUT_FOLDER: Destination directory for .scala files (default: ./output)
+ * - OPTIONS_FILE: JSON file with converter options, e.g. { "indentWidth": 4, "readonlyKeyword": "val" } (default: none)
  */
 
 import { readFileSync, writeFileSync, mkdirSync, readdirSync, statSync } from 'fs';
 import { join, relative, dirname, extname, basename } from 'path';
-import { convertTsToScala } from './src/converter.ts';
+import { convertTsToScalaWithDiagnostics, type ConverterOptions } from './src/converter.ts';
 
 // Configuration
 const INPUT_FOLDER = process.env.INPUT_FOLDER || './samples';
 const OUTPUT_FOLDER = process.env.OUTPUT_FOLDER || './output';
+const OPTIONS_FILE = process.env.OPTIONS_FILE;
+
+/**
+ * Load the converter options from OPTIONS_FILE, defaulting to none
+ */
+function loadConverterOptions(): ConverterOptions {
+  if (!OPTIONS_FILE) {
+    return {};
+  }
+  return JSON.parse(readFileSync(OPTIONS_FILE, 'utf-8')) as ConverterOptions;
+}
 
 /**
  * Recursively find all .d.ts files in a directory
@@ -60,7 +74,7 @@ function findTsFiles(dir: string): string[] {
 /**
  * Convert a single TypeScript file to Scala
  */
-function convertFile(inputPath: string, inputFolder: string, outputFolder: string): void {
+function convertFile(inputPath: string, inputFolder: string, outputFolder: string, options: ConverterOptions): void {
   try {
     // Read the TypeScript file
     const tsContent = readFileSync(inputPath, 'utf-8');
@@ -75,7 +89,7 @@ function convertFile(inputPath: string, inputFolder: string, outputFolder: strin
       .replace(/[^a-zA-Z0-9_.]/g, '_');
     
     // Convert TypeScript to Scala
-    const scalaContent = convertTsToScala(tsContent, packageName);
+    const { scala: scalaContent, diagnostics } = convertTsToScalaWithDiagnostics(tsContent, packageName, options);
     
     // Calculate output path
     const outputPath = join(outputFolder, relativePath.replace(/\.d\.ts$/, '.d.ts.scala'));
@@ -88,6 +102,10 @@ function convertFile(inputPath: string, inputFolder: string, outputFolder: strin
     writeFileSync(outputPath, scalaContent, 'utf-8');
     
     console.log(`✅ Converted: ${relativePath} -> ${relative(process.cwd(), outputPath)}`);
+    diagnostics.forEach(diagnostic => {
+      const icon = diagnostic.severity === 'warning' ? '⚠️ ' : 'ℹ️ ';
+      console.log(`   ${icon} ${relativePath}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`);
+    });
   } catch (error) {
     console.error(`❌ Error converting ${inputPath}:`, error);
   }
@@ -102,8 +120,13 @@ function main(): void {
   
   console.log(`🔍 Scanning for .d.ts files in: ${inputFolder}`);
   console.log(`📁 Output folder: ${outputFolder}`);
+  if (OPTIONS_FILE) {
+    console.log(`⚙️  Options file: ${OPTIONS_FILE}`);
+  }
   console.log('');
   
+  const options = loadConverterOptions();
+  
   // Find all TypeScript declaration files
   const tsFiles = findTsFiles(inputFolder);
   
@@ -124,7 +147,7 @@ function main(): void {
   
   for (const tsFile of tsFiles) {
     try {
-      convertFile(tsFile, inputFolder, outputFolder);
+      convertFile(tsFile, inputFolder, outputFolder, options);
       successCount++;
     } catch (error) {
       console.error(`❌ Failed to convert ${tsFile}:`, error);
@@ -0,0 +1,40 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package accessors {
+
+package accessors {
+
+@js.native
+@JSGlobal("accessors.Collection")
+class Collection extends js.Object {
+  def size: Double = js.native
+  var name: String = js.native
+  @JSName("onChange")
+  def onChange_=(handler: js.Function0[Unit]): Unit = js.native
+}
+@js.native
+@JSGlobal("accessors.Collection")
+object Collection extends js.Object {
+  def instances: Double = js.native
+}
+
+@js.native
+@JSGlobal("accessors.Shape")
+abstract class Shape extends js.Object {
+  def area: Double
+}
+
+@js.native
+trait Sized extends js.Object {
+  var width: Double = js.native
+  def height: Double = js.native
+  @JSName("type")
+  def type_=(value: String): Unit = js.native
+}
+
+}
+
+}
\ No newline at end of file
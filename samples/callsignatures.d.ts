@@ -0,0 +1,42 @@
+interface Formatter {
+    (value: number): string;
+    (value: number, digits: number): string;
+    locale: string;
+}
+
+type Comparator<T> = { (a: T, b: T): number };
+
+interface Point {
+    x: number;
+    y: number;
+    distanceTo(other: Point): number;
+}
+
+interface PointConstructor {
+    new (x: number, y: number): Point;
+    readonly prototype: Point;
+    readonly origin: Point;
+    isPoint(value: any): boolean;
+}
+
+declare var Point: PointConstructor;
+
+interface PointFactory {
+    new (x: number, y: number): Point;
+    readonly count: number;
+}
+
+interface Vector<T> extends Point {
+    data: T;
+}
+
+declare var Vector: {
+    new <T>(data: T): Vector<T>;
+    new (): Vector<any>;
+    <T>(data: T): Vector<T>;
+};
+
+declare var $: {
+    (selector: string): any;
+    version: string;
+};
@@ -0,0 +1,67 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package callsignatures {
+
+@js.native
+trait Formatter extends js.Object {
+  def apply(value: Double): String = js.native
+  def apply(value: Double, digits: Double): String = js.native
+  var locale: String = js.native
+}
+
+@js.native
+trait PointConstructor extends js.Object {
+  def prototype: Point = js.native
+  def origin: Point = js.native
+  def isPoint(value: js.Any): Boolean = js.native
+}
+
+@js.native
+@JSGlobal
+class Point protected () extends js.Object {
+  def this(x: Double, y: Double) = this()
+  var x: Double = js.native
+  var y: Double = js.native
+  def distanceTo(other: Point): Double = js.native
+}
+@js.native
+@JSGlobal
+object Point extends js.Object {
+  def origin: Point = js.native
+  def isPoint(value: js.Any): Boolean = js.native
+}
+
+@js.native
+trait PointFactory extends js.Object {
+  def count: Double = js.native
+}
+
+@js.native
+@JSGlobal
+class Vector[T] extends Point {
+  def this(data: T) = this()
+  var data: T = js.native
+}
+@js.native
+@JSGlobal
+object Vector extends js.Object {
+  def apply[T](data: T): Vector[T] = js.native
+}
+
+@js.native
+@JSGlobal
+object $ extends js.Object {
+  def apply(selector: String): js.Any = js.native
+  var version: String = js.native
+}
+
+@js.native
+@JSGlobalScope
+object Callsignatures extends js.Object {
+  type Comparator[T] = js.Function2[T, T, Double]
+}
+
+}
\ No newline at end of file
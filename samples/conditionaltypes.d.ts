@@ -0,0 +1,24 @@
+interface Props {
+    title: string;
+    count?: number;
+    onClick(event: MouseEvent): void;
+}
+
+type Title = Props["title"];
+type Count = Props["count"];
+type Handler = Props["onClick"];
+type Item = string[][number];
+type Second = [string, boolean][1];
+
+type IsString = "a" extends string ? true : false;
+type Known = 42 extends string | number ? number : never;
+type Fallback = undefined extends string ? string : null;
+type SameLiteral = 'a' extends "a" ? true : never;
+type SameNumber = 0x10 extends 16 ? number : never;
+
+type Unwrap<T> = T extends Promise<infer U> ? U : T;
+type NonNullable<T> = T extends null | undefined ? never : T;
+type ElementOf<T> = T extends (infer E)[] ? E : string;
+
+declare function unwrapCount(value: Promise<number>): Unwrap<Promise<number>>;
+declare function titleOf(props: Props): Props["title" | "count"];
@@ -0,0 +1,66 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package constenum {
+
+package constenum {
+
+@js.native
+sealed trait Direction extends js.Any
+
+object Direction {
+  val Up: Direction = 1.asInstanceOf[Direction]
+  val Down: Direction = 2.asInstanceOf[Direction]
+  val Left: Direction = 3.asInstanceOf[Direction]
+  val Right: Direction = 4.asInstanceOf[Direction]
+}
+
+@js.native
+sealed trait FileAccess extends js.Any
+
+object FileAccess {
+  val None: FileAccess = 0.asInstanceOf[FileAccess]
+  val Read: FileAccess = 2.asInstanceOf[FileAccess]
+  val Write: FileAccess = 4.asInstanceOf[FileAccess]
+  val ReadWrite: FileAccess = 6.asInstanceOf[FileAccess]
+  def G: FileAccess = ???
+}
+
+@js.native
+sealed trait Theme extends js.Any
+
+object Theme {
+  val Light: Theme = "light".asInstanceOf[Theme]
+  val Dark: Theme = "dark".asInstanceOf[Theme]
+  val `high-contrast`: Theme = "hc".asInstanceOf[Theme]
+}
+
+@js.native
+sealed trait Limits extends js.Any
+
+object Limits {
+  val Unbounded: Limits = Double.PositiveInfinity.asInstanceOf[Limits]
+  val Lowest: Limits = Double.NegativeInfinity.asInstanceOf[Limits]
+  val Unknown: Limits = Double.NaN.asInstanceOf[Limits]
+}
+
+@js.native
+sealed trait Flags extends js.Any
+
+@js.native
+@JSGlobal("constenum.Flags")
+object Flags extends js.Object {
+  val None: Flags = js.native // 0
+  val Visible: Flags = js.native // 1
+  val Enabled: Flags = js.native // 2
+  val Default: Flags = js.native // 3
+  val Negative: Flags = js.native // -2
+  @JSBracketAccess
+  def apply(value: Flags): String = js.native
+}
+
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+interface Box {
+    width: number;
+}
+
+interface Box {
+    height: number;
+    scale(factor: number): Box;
+}
+
+declare class Album {
+    label: Album.AlbumLabel;
+    static create(name: string): Album;
+}
+
+declare namespace Album {
+    export class AlbumLabel {
+        name: string;
+    }
+    export function fromJson(json: string): Album;
+}
+
+declare class Point {
+    x: number;
+}
+
+interface Point {
+    y: number;
+}
+
+declare function buildLabel(name: string): string;
+
+declare namespace buildLabel {
+    let suffix: string;
+    let prefix: string;
+}
+
+interface Options {
+    verbose?: boolean;
+    nested: { level: number };
+}
+
+declare namespace Options {
+    interface Defaults {
+        verbose: boolean;
+    }
+    const defaults: Defaults;
+    enum Mode {
+        Fast,
+        Safe
+    }
+}
+
+declare enum Color {
+    Red,
+    Green
+}
+
+declare namespace Color {
+    function parse(name: string): Color;
+    const all: Color[];
+}
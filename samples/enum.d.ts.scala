@@ -8,44 +8,39 @@ package enum {
 package enumtype {
 
 @js.native
-sealed trait Color extends js.Object {
-}
+sealed trait Color extends js.Any
 
 @js.native
 @JSGlobal("enumtype.Color")
 object Color extends js.Object {
-  var Red: Color = js.native
-  var Green: Color = js.native
-  var Blue: Color = js.native
+  val Red: Color = js.native // 0
+  val Green: Color = js.native // 1
+  val Blue: Color = js.native // 2
   @JSBracketAccess
   def apply(value: Color): String = js.native
 }
 
 @js.native
-sealed trait Button extends js.Object {
-}
+sealed trait Button extends js.Any
 
 @js.native
 @JSGlobal("enumtype.Button")
 object Button extends js.Object {
-  var Submit: Button = js.native
-  var Reset: Button = js.native
-  var Button: Button = js.native
-  @JSBracketAccess
-  def apply(value: Button): String = js.native
+  val Submit: Button = js.native // "submit"
+  val Reset: Button = js.native // "reset"
+  val Button: Button = js.native // "button"
 }
 
 @js.native
-sealed trait Mixed extends js.Object {
-}
+sealed trait Mixed extends js.Any
 
 @js.native
 @JSGlobal("enumtype.Mixed")
 object Mixed extends js.Object {
-  var EMPTY: Mixed = js.native
-  var NUMERIC: Mixed = js.native
-  var STRING: Mixed = js.native
-  var NEGATIVE: Mixed = js.native
+  val EMPTY: Mixed = js.native // 0
+  val NUMERIC: Mixed = js.native // 2
+  val STRING: Mixed = js.native // "string"
+  val NEGATIVE: Mixed = js.native // -1
   @JSBracketAccess
   def apply(value: Mixed): String = js.native
 }
@@ -8,6 +8,10 @@ package exportidentifier {
 @js.native
 @JSGlobalScope
 object Exportidentifier extends js.Object {
+  /**
+   * Compute the absolute path of an input.
+   * @param input The input path.
+   */
   def Abs(input: String): String = js.native
 }
 
@@ -0,0 +1,90 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package externalmodule {
+
+package pixi_js {
+
+@js.native
+trait IPoint extends js.Object {
+  var x: Double = js.native
+  var y: Double = js.native
+}
+
+@js.native
+@JSImport("pixi.js", "Sprite")
+class Sprite protected () extends js.Object {
+  def this(texture: Texture) = this()
+  var texture: Texture = js.native
+}
+@js.native
+@JSImport("pixi.js", "Sprite")
+object Sprite extends js.Object {
+  def from(source: String): Sprite = js.native
+}
+
+@js.native
+@JSImport("pixi.js", "Texture")
+class Texture extends js.Object {
+  var width: Double = js.native
+  var height: Double = js.native
+}
+
+@js.native
+sealed trait BlendModes extends js.Any
+
+@js.native
+@JSImport("pixi.js", "BlendModes")
+object BlendModes extends js.Object {
+  val NORMAL: BlendModes = js.native // 0
+  val ADD: BlendModes = js.native // 1
+  @JSBracketAccess
+  def apply(value: BlendModes): String = js.native
+}
+
+@js.native
+@JSImport("pixi.js", JSImport.Default)
+class Application extends js.Object {
+  var stage: Sprite = js.native
+}
+
+@js.native
+@JSImport("pixi.js", JSImport.Namespace)
+object PixiJs extends js.Object {
+  type Tint = Double
+  val VERSION: String = js.native
+  def autoDetectRenderer(width: Double, height: Double): js.Any = js.native
+}
+
+}
+package pixi_utils {
+
+package utils {
+
+@js.native
+@JSImport("@pixi/utils", "EventEmitter")
+class EventEmitter extends js.Object {
+  def emit(event: String): Boolean = js.native
+}
+
+@js.native
+@JSImport("@pixi/utils", JSImport.Namespace)
+object Utils extends js.Object {
+  def hex2string(hex: Double): String = js.native
+}
+
+}
+}
+package left_pad {
+
+@js.native
+@JSImport("left-pad", JSImport.Namespace)
+object LeftPad extends js.Object {
+  def apply(str: String, len: Double): String = js.native
+}
+
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+declare namespace functiontypes {
+    type Nullary = () => void;
+    type Ternary = (a: string, b: number, c: boolean) => string;
+    type Quaternary<T> = (a: T, b: T, c: T, d: T) => T;
+    type Untyped = (a, b, c) => any;
+    type Handler = (this: HTMLElement, event: Event) => boolean;
+    type ThisOnly = (this: Window) => void;
+    type Variadic = (...args: string[]) => void;
+    type LeadingAndVariadic = (format: string, ...args: any[]) => string;
+    type ThisVariadic = (this: Window, ...args: any[]) => void;
+    type Collect<T> = (first: T, ...rest: T[]) => T[];
+
+    interface Emitter {
+        on(event: string, listener: (this: Emitter, name: string, value: any, previous: any) => void): this;
+    }
+
+    function each(callback: (...emitters: Emitter[]) => void): void;
+}
@@ -2,6 +2,14 @@
 import scala.scalajs.js
 import js.annotation._
 import js.|
+import module.Default
+import module.Single
+import module.{Single => Renamed}
+import module.First
+import module.Second
+import module.{Third => T}
+import module.Fourth
+import _root_.{module => validator}
 
 package `import` {
 
@@ -0,0 +1,50 @@
+/**
+ * A two-dimensional vector.
+ *
+ * Vectors are immutable, see {@link Vector.add} and {@link Matrix | matrices}.
+ */
+declare class Vector {
+    /** Creates the vector (x, y). */
+    constructor(x: number, y: number);
+
+    /** Horizontal component. */
+    readonly x: number;
+
+    /**
+     * Adds another vector to this one.
+     * @param other - The vector to add.
+     * @returns The sum of both vectors.
+     * @example
+     * const sum = new Vector(1, 2).add(new Vector(3, 4));
+     */
+    add(other: Vector): Vector;
+
+    /** The vector of length 1 pointing right. */
+    static readonly unit: Vector;
+}
+
+/** A matrix of numbers. */
+interface Matrix {
+    /** Number of rows, see {@linkcode Matrix.columns}. */
+    rows: number;
+    /** @returns The transposed matrix. */
+    transpose(): Matrix;
+}
+
+/** Ways of rounding numbers. */
+declare enum Rounding {
+    /** Rounds towards zero. */
+    Truncate,
+    /** Rounds to the nearest integer. */
+    Nearest
+}
+
+/**
+ * Parses a vector from its string form.
+ * @param text Coordinates separated by a comma.
+ * @throws When the text is not a vector.
+ */
+declare function parseVector(text: string): Vector;
+
+/** The origin. */
+declare const origin: Vector;
@@ -24,9 +24,9 @@ object Keyof extends js.Object {
   type K1 = String
   type K2 = String
   type K3 = String
-  type P1 = js.Any
-  type P2 = js.Any
-  type P3 = js.Any
+  type P1 = String
+  type P2 = Double
+  type P3 = String | Boolean
   type P4 = js.Any
   type P5 = js.Any
 }
@@ -0,0 +1,56 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package literalunionfacade {
+
+package literalunionfacade {
+
+@js.native
+sealed trait Align extends js.Any
+
+object Align {
+  val left: Align = "left".asInstanceOf[Align]
+  val right: Align = "right".asInstanceOf[Align]
+  val center: Align = "center".asInstanceOf[Align]
+}
+
+@js.native
+sealed trait Theme extends js.Any
+
+object Theme {
+  val vs: Theme = "vs".asInstanceOf[Theme]
+  val `vs-dark`: Theme = "vs-dark".asInstanceOf[Theme]
+  val `hc-black`: Theme = "hc-black".asInstanceOf[Theme]
+  val default: Theme = "default".asInstanceOf[Theme]
+}
+
+@js.native
+sealed trait Level extends js.Any
+
+object Level {
+  val `0`: Level = 0.asInstanceOf[Level]
+  val `1`: Level = 1.asInstanceOf[Level]
+  val `2`: Level = 2.asInstanceOf[Level]
+  val `-1`: Level = (-1).asInstanceOf[Level]
+}
+
+@js.native
+trait TextOptions extends js.Object {
+  var align: Align = js.native
+  var theme: js.UndefOr[Theme] = js.native
+  var level: Level = js.native
+  var width: Mixed = js.native
+  var fallback: String = js.native
+}
+
+@js.native
+@JSGlobal("literalunionfacade")
+object Literalunionfacade extends js.Object {
+  type Mixed = String | Double
+}
+
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+declare const customKey: unique symbol;
+
+declare class Collection<T> {
+    [Symbol.iterator](): Iterator<T>;
+    static [Symbol.hasInstance](value: unknown): boolean;
+    get [Symbol.toStringTag](): string;
+    [customKey]: string;
+    "content-type": string;
+    ["max-age"]?: number;
+    "valid": boolean;
+    "2d": boolean;
+    "default"(): void;
+    set 0(value: number);
+}
+
+interface Headers {
+    "x-request-id": string;
+    xRequestId: string;
+    "accept-encoding"?(value: string): void;
+    "type": string;
+    [Symbol.asyncIterator](): AsyncIterator<string>;
+    "cache-control": {
+        "max-age": number;
+    };
+}
@@ -0,0 +1,59 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package membernames {
+
+@js.native
+@JSGlobal
+class Collection[T] extends js.Object {
+  @JSName(js.Symbol.iterator)
+  def iterator(): js.Iterator[T] = js.native
+  @JSName(js.Symbol.toStringTag)
+  def toStringTag: String = js.native
+  @JSName("content-type")
+  var contentType: String = js.native
+  @JSName("max-age")
+  var maxAge: js.UndefOr[Double] = js.native
+  var valid: Boolean = js.native
+  @JSName("2d")
+  var _2d: Boolean = js.native
+  def default(): Unit = js.native
+  @JSName("0")
+  def _0_=(value: Double): Unit = js.native
+}
+@js.native
+@JSGlobal
+object Collection extends js.Object {
+  @JSName(js.Symbol.hasInstance)
+  def hasInstance(value: js.Any): Boolean = js.native
+}
+
+@js.native
+trait Headers extends js.Object {
+  var `x-request-id`: String = js.native
+  var xRequestId: String = js.native
+  @JSName("accept-encoding")
+  var acceptEncoding: js.UndefOr[js.Function1[String, Unit]] = js.native
+  var `type`: String = js.native
+  @JSName(js.Symbol.asyncIterator)
+  def asyncIterator(): AsyncIterator[String] = js.native
+  @JSName("cache-control")
+  var cacheControl: Headers.CacheControl = js.native
+}
+object Headers {
+  @js.native
+  trait CacheControl extends js.Object {
+    @JSName("max-age")
+    var maxAge: Double = js.native
+  }
+}
+
+@js.native
+@JSGlobalScope
+object Membernames extends js.Object {
+  val customKey: js.Symbol = js.native
+}
+
+}
\ No newline at end of file
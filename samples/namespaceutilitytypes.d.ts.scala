@@ -0,0 +1,77 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package namespaceutilitytypes {
+
+package geometry {
+
+@js.native
+trait Vertex extends js.Object {
+  var x: Double = js.native
+  var y: Double = js.native
+}
+
+@js.native
+trait Shape extends js.Object {
+  var origin: Vertex = js.native
+  var vertices: js.Array[Vertex] = js.native
+  var label: js.UndefOr[String] = js.native
+}
+
+package layout {
+
+@js.native
+@JSGlobal("geometry.layout")
+object Layout extends js.Object {
+  def place(shape: ReadonlyShape): Unit = js.native
+}
+
+}
+@js.native
+@JSGlobal("geometry")
+object Geometry extends js.Object {
+  def update(shape: Shape, changes: PartialShape): Shape = js.native
+  def outline(shape: PickShapeVertices): js.Array[Vertex] = js.native
+}
+
+}
+@js.native
+@JSGlobalScope
+object Namespaceutilitytypes extends js.Object {
+  val defaults: geometry.PartialGeometryShape = js.native
+  def reset(changes: geometry.PartialGeometryShape): Unit = js.native
+}
+
+package geometry {
+
+@js.native
+trait ReadonlyShape extends js.Object {
+  def origin: Vertex = js.native
+  def vertices: js.Array[Vertex] = js.native
+  def label: js.UndefOr[String] = js.native
+}
+
+@js.native
+trait PartialShape extends js.Object {
+  var origin: js.UndefOr[Vertex] = js.native
+  var vertices: js.UndefOr[js.Array[Vertex]] = js.native
+  var label: js.UndefOr[String] = js.native
+}
+
+@js.native
+trait PickShapeVertices extends js.Object {
+  var vertices: js.Array[Vertex] = js.native
+}
+
+@js.native
+trait PartialGeometryShape extends js.Object {
+  var origin: js.UndefOr[Vertex] = js.native
+  var vertices: js.UndefOr[js.Array[Vertex]] = js.native
+  var label: js.UndefOr[String] = js.native
+}
+
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+declare namespace NS {
+    const enum Level {
+        Low = 1,
+        High = 2
+    }
+    type Align = "left" | "right";
+    namespace Inner {
+        const enum Mode {
+            On = "on",
+            Off = "off"
+        }
+    }
+}
+
+declare function NS(): void;
@@ -0,0 +1,24 @@
+declare namespace Geometry.Shapes.Polygons {
+    class Triangle {
+        constructor(base: number, height: number);
+        area(): number;
+        static readonly sides: number;
+    }
+
+    interface Vertex {
+        x: number;
+        y: number;
+    }
+
+    function fromVertices(vertices: Vertex[]): Triangle;
+}
+
+declare namespace Geometry {
+    namespace Units {
+        class Angle {
+            static fromDegrees(degrees: number): Angle;
+        }
+
+        const fullTurn: number;
+    }
+}
@@ -0,0 +1,64 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package nestednamespace {
+
+package Geometry {
+
+package Shapes {
+
+package Polygons {
+
+@js.native
+@JSGlobal("Geometry.Shapes.Polygons.Triangle")
+class Triangle protected () extends js.Object {
+  def this(base: Double, height: Double) = this()
+  def area(): Double = js.native
+}
+@js.native
+@JSGlobal("Geometry.Shapes.Polygons.Triangle")
+object Triangle extends js.Object {
+  val sides: Double = js.native
+}
+
+@js.native
+trait Vertex extends js.Object {
+  var x: Double = js.native
+  var y: Double = js.native
+}
+
+@js.native
+@JSGlobal("Geometry.Shapes.Polygons")
+object Polygons extends js.Object {
+  def fromVertices(vertices: js.Array[Vertex]): Triangle = js.native
+}
+
+}
+}
+}
+package Geometry {
+
+package Units {
+
+@js.native
+@JSGlobal("Geometry.Units.Angle")
+class Angle extends js.Object {
+}
+@js.native
+@JSGlobal("Geometry.Units.Angle")
+object Angle extends js.Object {
+  def fromDegrees(degrees: Double): Angle = js.native
+}
+
+@js.native
+@JSGlobal("Geometry.Units")
+object Units extends js.Object {
+  val fullTurn: Double = js.native
+}
+
+}
+}
+
+}
\ No newline at end of file
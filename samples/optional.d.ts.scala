@@ -0,0 +1,43 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package optional {
+
+package optional {
+
+@js.native
+trait Options extends js.Object {
+  var name: js.UndefOr[String] = js.native
+  def id: js.UndefOr[Double] = js.native
+  var timeout: js.UndefOr[Double] = js.native
+  var label: js.UndefOr[String] = js.native
+  var parent: Options | Null | Unit = js.native
+  var onClose: js.UndefOr[js.Function1[String, Unit]] = js.native
+  var onError: js.UndefOr[js.Function1[js.Error, Unit] | js.Function2[String, Double, Boolean]] = js.native
+  var settings: js.UndefOr[Options.Settings] = js.native
+}
+object Options {
+  @js.native
+  trait Settings extends js.Object {
+    var verbose: js.UndefOr[Boolean] = js.native
+  }
+}
+
+@js.native
+@JSGlobal("optional.Widget")
+class Widget extends js.Object {
+  var title: js.UndefOr[String] = js.native
+  var render: js.UndefOr[js.Function0[Unit] | js.Function1[HTMLElement, Unit]] = js.native
+  def find(selector: String = js.native): js.UndefOr[Widget] = js.native
+}
+@js.native
+@JSGlobal("optional.Widget")
+object Widget extends js.Object {
+  var defaults: js.UndefOr[Options] = js.native
+}
+
+}
+
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+declare namespace stdlib {
+    interface Cache<K, V> {
+        load(key: K): Promise<V>;
+        entries: Map<K, V>;
+        snapshot: ReadonlyMap<K, V>;
+        keys: Set<K>;
+        owners: WeakMap<object, K>;
+        updatedAt: Date;
+        pattern: RegExp;
+        lastError: Error | null;
+        failure: TypeError;
+        values(): Iterable<V>;
+        iterator(): Iterator<V>;
+        tag: symbol;
+        marker: Symbol;
+        size: bigint;
+        metadata: unknown;
+        callback: Function;
+        thenable: PromiseLike<V>;
+    }
+}
@@ -9,11 +9,11 @@ package stringlit {
 
 @js.native
 trait IEditorOptions extends js.Object {
-  var ariaLabel: String = js.native
-  var rulers: js.Array[Double] = js.native
-  var selectionClipboard: Boolean = js.native
-  var lineNumbers: String | js.Function1[Double, String] = js.native
-  var readable: String | Boolean = js.native
+  var ariaLabel: js.UndefOr[String] = js.native
+  var rulers: js.UndefOr[js.Array[Double]] = js.native
+  var selectionClipboard: js.UndefOr[Boolean] = js.native
+  var lineNumbers: js.UndefOr[String | js.Function1[Double, String]] = js.native
+  var readable: js.UndefOr[String | Boolean] = js.native
 }
 
 @js.native
@@ -0,0 +1,20 @@
+type EventName = `on${string}`;
+type Size = `${number}px` | `${number}em`;
+type Alignment = "left" | "right" | `center-${"x" | "y"}`;
+type Label = `label-${string}` | number;
+
+type Big = 100n;
+type Offset = -1n | 0n | 1n;
+type Negative = -1;
+
+declare const iteratorKey: unique symbol;
+
+declare class Registry {
+    static readonly key: unique symbol;
+    handler(event: `on${string}`, callback: () => void): void;
+    readonly total: bigint;
+}
+
+interface Options {
+    prefix?: `${string}-`;
+}
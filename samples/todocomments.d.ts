@@ -0,0 +1,8 @@
+interface Store<State> {
+    keys: keyof State;
+    select<K extends keyof State>(key: K): State[K];
+    subscribe(listener: (...changes: string[]) => void): void;
+    history: [State, ...State[]];
+}
+
+type Getters<T> = { [K in keyof T]: () => T[K] };
@@ -0,0 +1,27 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package todocomments {
+
+@js.native
+trait Store[State] extends js.Object {
+  var keys: String = js.native // TODO: keyof State
+  def select[K <: String](key: K): js.Any = js.native // TODO: keyof State; State[K]
+  def subscribe(listener: ListenerFunction): Unit = js.native
+  var history: js.Array[State] = js.native // TODO: [State, ...State[]]
+}
+
+@js.native
+@JSGlobalScope
+object Todocomments extends js.Object {
+  type Getters[T] = js.Dictionary[js.Function0[js.Any]] // TODO: T[K]; { [K in keyof T]: () => T[K] }
+}
+
+@js.native
+trait ListenerFunction extends js.Function {
+  def apply(changes: String*): Unit = js.native
+}
+
+}
\ No newline at end of file
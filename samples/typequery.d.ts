@@ -0,0 +1,42 @@
+declare class Widget {
+    static create(): Widget;
+    render(): void;
+}
+
+declare class Plain {
+    value: number;
+}
+
+declare enum Direction {
+    Up,
+    Down
+}
+
+declare namespace plugins {
+    interface Plugin {
+        name: string;
+    }
+    const registry: string[];
+    const active: Plugin;
+    const previous: typeof active;
+}
+
+declare function createWidget(name: string): Widget;
+
+declare const defaultName = "widget";
+declare const maxWidgets = 10;
+declare let current: Widget;
+
+declare const factory: typeof Widget;
+declare const plainConstructor: typeof Plain;
+declare const directions: typeof Direction;
+declare const allPlugins: typeof plugins;
+declare const registry: typeof plugins.registry;
+declare const activePlugin: typeof plugins.active;
+declare const create: typeof createWidget;
+declare let fallbackName: typeof defaultName;
+declare let previous: typeof current;
+declare const lodashModule: typeof import("lodash");
+
+declare function resize(width: number, height: typeof width): void;
+declare function load(path: string): import("fs").Stats;
@@ -0,0 +1,75 @@
+
+import scala.scalajs.js
+import js.annotation._
+import js.|
+
+package typequery {
+
+@js.native
+@JSGlobal
+class Widget extends js.Object {
+  def render(): Unit = js.native
+}
+@js.native
+@JSGlobal
+object Widget extends js.Object {
+  def create(): Widget = js.native
+}
+
+@js.native
+@JSGlobal
+class Plain extends js.Object {
+  var value: Double = js.native
+}
+
+@js.native
+sealed trait Direction extends js.Any
+
+@js.native
+@JSGlobal("Direction")
+object Direction extends js.Object {
+  val Up: Direction = js.native // 0
+  val Down: Direction = js.native // 1
+  @JSBracketAccess
+  def apply(value: Direction): String = js.native
+}
+
+package plugins {
+
+@js.native
+trait Plugin extends js.Object {
+  var name: String = js.native
+}
+
+@js.native
+@JSGlobal("plugins")
+object Plugins extends js.Object {
+  val registry: js.Array[String] = js.native
+  val active: Plugin = js.native
+  val previous: Plugin = js.native
+}
+
+}
+@js.native
+@JSGlobalScope
+object Typequery extends js.Object {
+  val defaultName: String = js.native
+  val maxWidgets: Int = js.native
+  def current: Widget = js.native
+  val factory: Widget.type = js.native
+  val plainConstructor: js.Dynamic = js.native
+  val directions: Direction.type = js.native
+  val allPlugins: plugins.Plugins.type = js.native
+  val registry: js.Array[String] = js.native
+  val activePlugin: js.Any = js.native
+  val create: js.Function1[String, Widget] = js.native
+  def fallbackName: String = js.native
+  def previous: Widget = js.native
+  val lodashModule: lodash.Lodash.type = js.native
+  def createWidget(name: String): Widget = js.native
+  def resize(width: Double, height: Double): Unit = js.native
+  def load(path: String): fs.Stats = js.native
+}
+
+
+}
\ No newline at end of file
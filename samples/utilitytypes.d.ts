@@ -0,0 +1,33 @@
+interface Named {
+    name: string;
+}
+
+interface User extends Named {
+    /** Unique identifier. */
+    readonly id: number;
+    email?: string;
+    greet(greeting: string): string;
+}
+
+type UserPatch = Partial<User>;
+type CompleteUser = Required<User>;
+type FrozenUser = Readonly<User>;
+type UserSummary = Pick<User, 'id' | 'name'>;
+type AnonymousUser = Omit<User, 'name' | 'email'>;
+type OptionalSummary = Partial<Pick<User, 'id' | 'email'>>;
+type MutableUser = { -readonly [K in keyof User]: User[K] };
+type Point = Readonly<{ x: number; y: number }>;
+
+type UsersById = Record<string, User>;
+type Flags = Record<'debug' | 'verbose', boolean>;
+type Scores = { [key in string]: number };
+
+declare function updateUser(id: number, patch: Partial<User>): User;
+declare function countByName(items: Named[]): Record<string, number>;
+declare function createUser(user: Omit<User, 'id'>): User;
+
+interface UserStore {
+    defaults: Partial<User>;
+    find(query: Pick<User, 'name' | 'email'>): User[];
+    update<T>(patch: Partial<T>): void;
+}
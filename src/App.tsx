@@ -15,7 +15,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "./components/ui/card";
 import { ScrollArea } from "./components/ui/scroll-area";
 import { Textarea } from "./components/ui/textarea";
 import { CodeHighlighter } from "./components/CodeHighlighter";
-import { convertTsToScala } from "./converter";
+import { convertTsToScala, type ConverterOptions } from "./converter";
 
 interface SampleFile {
   name: string;
@@ -26,31 +26,54 @@ interface SampleFile {
 // List of sample files from the samples directory
 const SAMPLE_FILE_NAMES = [
   "abstract",
+  "accessors",
   "booleanlit",
+  "callsignatures",
   "comma",
+  "conditionaltypes",
+  "constenum",
+  "declarationmerging",
+  "deprecated",
   "duplicateliteraltypes",
   "enum",
   "export",
   "exportidentifier",
   "extendsintersection",
   "extendsobject",
+  "externalmodule",
+  "functiontypes",
   "generics",
   "import",
   "indexabletypes",
+  "interfaceextends",
   "intersectiontype",
+  "jsdoc",
   "jsglobal",
   "keyof",
+  "literalunionfacade",
+  "membernames",
   "modifiers",
+  "namespaceutilitytypes",
   "nametranslation",
+  "nestedconstants",
+  "nestednamespace",
   "nestedobjectliteraltypes",
   "never",
   "numberlit",
   "objectlit",
+  "optional",
   "overrides",
+  "parameters",
+  "stdlib",
   "stringlit",
+  "templateliteral",
   "then",
   "thistype",
+  "todocomments",
+  "tuple",
+  "typequery",
   "uniontype",
+  "utilitytypes",
 ];
 
 // Helper function to safely join URL paths
@@ -68,6 +91,7 @@ function App() {
   const [mode, setMode] = useState<"samples" | "custom">("samples");
   const [customTsContent, setCustomTsContent] = useState("");
   const [customScalaContent, setCustomScalaContent] = useState("");
+  const [customOptionsContent, setCustomOptionsContent] = useState("{}");
   const [isConverting, setIsConverting] = useState(false);
   const [copyStates, setCopyStates] = useState<{
     ts: "idle" | "copying" | "copied" | "error";
@@ -198,7 +222,8 @@ function App() {
 
     setIsConverting(true);
     try {
-      const generatedScala = convertTsToScala(customTsContent, "custom");
+      const options = JSON.parse(customOptionsContent || "{}") as ConverterOptions;
+      const generatedScala = convertTsToScala(customTsContent, "custom", options);
       setCustomScalaContent(generatedScala);
     } catch (error) {
       console.error("Failed to convert custom TypeScript to Scala:", error);
@@ -398,6 +423,15 @@ declare module 'my-module' {
                   onChange={(e) => setCustomTsContent(e.target.value)}
                   className="flex-1 min-h-0 resize-none font-mono text-sm"
                 />
+                <div className="text-sm text-slate-600">
+                  Converter options (JSON):
+                </div>
+                <Textarea
+                  placeholder='{ "indentWidth": 4, "readonlyKeyword": "val" }'
+                  value={customOptionsContent}
+                  onChange={(e) => setCustomOptionsContent(e.target.value)}
+                  className="h-24 flex-shrink-0 resize-none font-mono text-sm"
+                />
                 <Button
                   onClick={handleCustomConvert}
                   disabled={!customTsContent.trim() || isConverting}
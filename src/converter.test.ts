@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import { readFileSync, existsSync } from 'fs'
 import { join } from 'path'
-import { convertTsToScala } from './converter'
+import { convertProject, convertProjectWithDiagnostics, convertTsToScala, convertTsToScalaWithDiagnostics, type ConverterOptions } from './converter'
 
 function readSampleFile(fileName: string): string {
   const filePath = join(process.cwd(), 'samples', fileName)
@@ -15,12 +15,12 @@ function readExpectedOutput(fileName: string): string {
   return readSampleFile(fileName + '.scala')
 }
 
-function testTsFile(fileName: string) {
+function testTsFile(fileName: string, options?: ConverterOptions) {
   const input = readSampleFile(fileName)
   const expected = readExpectedOutput(fileName)
   const packageName = fileName.replace('.d.ts', '')
   
-  const actual = convertTsToScala(input, packageName)
+  const actual = convertTsToScala(input, packageName, options)
   
   expect(actual.trim()).toBe(expected.trim())
 }
@@ -30,14 +30,38 @@ describe('TypeScript to Scala Converter', () => {
     testTsFile('abstract.d.ts')
   })
 
+  it('should convert accessors.d.ts', () => {
+    testTsFile('accessors.d.ts')
+  })
+
   it('should convert booleanlit.d.ts', () => {
     testTsFile('booleanlit.d.ts')
   })
 
+  it('should convert callsignatures.d.ts', () => {
+    testTsFile('callsignatures.d.ts')
+  })
+
   it('should convert comma.d.ts', () => {
     testTsFile('comma.d.ts')
   })
 
+  it('should convert conditionaltypes.d.ts', () => {
+    testTsFile('conditionaltypes.d.ts')
+  })
+
+  it('should convert constenum.d.ts', () => {
+    testTsFile('constenum.d.ts')
+  })
+
+  it('should convert declarationmerging.d.ts', () => {
+    testTsFile('declarationmerging.d.ts')
+  })
+
+  it('should convert deprecated.d.ts', () => {
+    testTsFile('deprecated.d.ts')
+  })
+
   it('should convert duplicateliteraltypes.d.ts', () => {
     testTsFile('duplicateliteraltypes.d.ts')
   })
@@ -62,6 +86,14 @@ describe('TypeScript to Scala Converter', () => {
     testTsFile('extendsobject.d.ts')
   })
 
+  it('should convert externalmodule.d.ts', () => {
+    testTsFile('externalmodule.d.ts')
+  })
+
+  it('should convert functiontypes.d.ts', () => {
+    testTsFile('functiontypes.d.ts')
+  })
+
   it('should convert generics.d.ts', () => {
     testTsFile('generics.d.ts')
   })
@@ -74,10 +106,18 @@ describe('TypeScript to Scala Converter', () => {
     testTsFile('indexabletypes.d.ts')
   })
 
+  it('should convert interfaceextends.d.ts', () => {
+    testTsFile('interfaceextends.d.ts')
+  })
+
   it('should convert intersectiontype.d.ts', () => {
     testTsFile('intersectiontype.d.ts')
   })
 
+  it('should convert jsdoc.d.ts', () => {
+    testTsFile('jsdoc.d.ts')
+  })
+
   it('should convert jsglobal.d.ts', () => {
     testTsFile('jsglobal.d.ts')
   })
@@ -86,14 +126,34 @@ describe('TypeScript to Scala Converter', () => {
     testTsFile('keyof.d.ts')
   })
 
+  it('should convert literalunionfacade.d.ts', () => {
+    testTsFile('literalunionfacade.d.ts', { literalUnionFacades: true })
+  })
+
+  it('should convert membernames.d.ts', () => {
+    testTsFile('membernames.d.ts')
+  })
+
   it('should convert modifiers.d.ts', () => {
     testTsFile('modifiers.d.ts')
   })
 
+  it('should convert namespaceutilitytypes.d.ts', () => {
+    testTsFile('namespaceutilitytypes.d.ts')
+  })
+
   it('should convert nametranslation.d.ts', () => {
     testTsFile('nametranslation.d.ts')
   })
 
+  it('should convert nestedconstants.d.ts', () => {
+    testTsFile('nestedconstants.d.ts', { literalUnionFacades: true })
+  })
+
+  it('should convert nestednamespace.d.ts', () => {
+    testTsFile('nestednamespace.d.ts')
+  })
+
   it('should convert nestedobjectliteraltypes.d.ts', () => {
     testTsFile('nestedobjectliteraltypes.d.ts')
   })
@@ -110,14 +170,30 @@ describe('TypeScript to Scala Converter', () => {
     testTsFile('objectlit.d.ts')
   })
 
+  it('should convert optional.d.ts', () => {
+    testTsFile('optional.d.ts')
+  })
+
   it('should convert overrides.d.ts', () => {
     testTsFile('overrides.d.ts')
   })
 
+  it('should convert parameters.d.ts', () => {
+    testTsFile('parameters.d.ts')
+  })
+
+  it('should convert stdlib.d.ts', () => {
+    testTsFile('stdlib.d.ts')
+  })
+
   it('should convert stringlit.d.ts', () => {
     testTsFile('stringlit.d.ts')
   })
 
+  it('should convert templateliteral.d.ts', () => {
+    testTsFile('templateliteral.d.ts')
+  })
+
   it('should convert then.d.ts', () => {
     testTsFile('then.d.ts')
   })
@@ -126,7 +202,230 @@ describe('TypeScript to Scala Converter', () => {
     testTsFile('thistype.d.ts')
   })
 
+  it('should convert todocomments.d.ts', () => {
+    testTsFile('todocomments.d.ts', { todoComments: true })
+  })
+
+  it('should convert tuple.d.ts', () => {
+    testTsFile('tuple.d.ts')
+  })
+
+  it('should convert typequery.d.ts', () => {
+    testTsFile('typequery.d.ts')
+  })
+
   it('should convert uniontype.d.ts', () => {
     testTsFile('uniontype.d.ts')
   })
-})
\ No newline at end of file
+
+  it('should convert utilitytypes.d.ts', () => {
+    testTsFile('utilitytypes.d.ts')
+  })
+})
+
+describe('Type mappings', () => {
+  it('should let callers extend and override the default type mappings', () => {
+    const input = 'declare const node: HTMLElement;\ndeclare const created: Date;'
+    const actual = convertTsToScala(input, 'mappings', {
+      typeMappings: {
+        'HTMLElement': 'org.scalajs.dom.HTMLElement',
+        'Date': 'java.util.Date'
+      }
+    })
+
+    expect(actual).toContain('val node: org.scalajs.dom.HTMLElement = js.native')
+    expect(actual).toContain('val created: java.util.Date = js.native')
+  })
+})
+
+describe('Converter options', () => {
+  it('should reproduce the default output when no options are given', () => {
+    const input = readSampleFile('modifiers.d.ts')
+    expect(convertTsToScala(input, 'modifiers', {})).toBe(convertTsToScala(input, 'modifiers'))
+  })
+
+  it('should apply formatting and naming policies', () => {
+    const input = 'interface Point { readonly x: number; move(); }\ndeclare function reset();\ndeclare const origin: Point;'
+    const actual = convertTsToScala(input, 'geometry', {
+      indentWidth: 4,
+      headerImports: ['scala.scalajs.js', 'js.annotation._'],
+      defaultReturnType: 'js.Any',
+      readonlyKeyword: 'val',
+      globalObjectName: 'GeometryGlobals'
+    })
+
+    expect(actual).toContain('import scala.scalajs.js\nimport js.annotation._\n\n')
+    expect(actual).not.toContain('import js.|')
+    expect(actual).toContain('    val x: Double = js.native\n    def move(): js.Any = js.native\n')
+    expect(actual).toContain('object GeometryGlobals extends js.Object {')
+    expect(actual).toContain('    def reset(): js.Any = js.native')
+  })
+})
+
+describe('Diagnostics', () => {
+  it('should report lossy and unsupported constructs with their position', () => {
+    const input = 'interface Box {\n  keys: keyof Box;\n}\ntype Size = { width: number };\nlabel: while (true) {}'
+    const { scala, diagnostics } = convertTsToScalaWithDiagnostics(input, 'diagnostics')
+
+    expect(scala).toBe(convertTsToScala(input, 'diagnostics'))
+    expect(diagnostics).toEqual([
+      { severity: 'info', message: 'keyof type approximated as String', line: 2, column: 9, nodeKind: 'TypeOperator', fallback: 'String' },
+      { severity: 'warning', message: 'Object type literal converted to js.Any', line: 4, column: 13, nodeKind: 'TypeLiteral', fallback: 'js.Any' },
+      { severity: 'warning', message: 'Unsupported statement LabeledStatement was skipped', line: 5, column: 1, nodeKind: 'LabeledStatement', fallback: undefined }
+    ])
+  })
+
+  it('should report conditional types approximated by the union of their branches', () => {
+    const { diagnostics } = convertTsToScalaWithDiagnostics('type Unwrap<T> = T extends Promise<infer U> ? U : T;', 'diagnostics')
+
+    expect(diagnostics).toEqual([
+      { severity: 'info', message: 'Conditional type approximated as js.Any | T', line: 1, column: 18, nodeKind: 'ConditionalType', fallback: 'js.Any | T' }
+    ])
+  })
+
+  it('should keep the comments of converted types out of diagnostics', () => {
+    const { diagnostics } = convertTsToScalaWithDiagnostics('type A<T> = T extends string ? `on${string}` : number;', 'diagnostics', { todoComments: true })
+
+    expect(diagnostics).toEqual([
+      { severity: 'info', message: 'Conditional type approximated as String | Double', line: 1, column: 13, nodeKind: 'ConditionalType', fallback: 'String | Double' },
+      { severity: 'info', message: 'Template literal type converted to String', line: 1, column: 32, nodeKind: 'TemplateLiteralType', fallback: 'String' }
+    ])
+  })
+
+  it('should report const enum members whose value could not be computed', () => {
+    const { scala, diagnostics } = convertTsToScalaWithDiagnostics('declare const enum Size {\n  Small = 1,\n  Large = "large".length\n}', 'diagnostics', { todoComments: true })
+
+    expect(scala).toContain('  def Large: Size = ??? // TODO: "large".length\n')
+    expect(diagnostics).toEqual([
+      { severity: 'warning', message: 'Value of const enum member Large could not be computed', line: 3, column: 11, nodeKind: 'PropertyAccessExpression', fallback: '???' }
+    ])
+  })
+
+  it('should report construct signatures of interfaces that do not type a constructor variable', () => {
+    const input = 'interface Foo {}\ninterface FooFactory {\n  new (name: string): Foo;\n}\ninterface FooConstructor {\n  new (): Foo;\n}\ndeclare var Bar: FooConstructor;'
+    const { diagnostics } = convertTsToScalaWithDiagnostics(input, 'diagnostics')
+
+    expect(diagnostics).toEqual([
+      { severity: 'warning', message: 'Construct signature was skipped, as only the type of a constructor variable (declare var Foo: FooConstructor) becomes a class', line: 3, column: 3, nodeKind: 'ConstructSignature', fallback: undefined }
+    ])
+  })
+
+  it('should report overloads of optional methods merged into one field', () => {
+    const input = 'declare class Widget {\n  render?(): void;\n  render?(container: HTMLElement): void;\n}'
+    const { scala, diagnostics } = convertTsToScalaWithDiagnostics(input, 'diagnostics')
+
+    expect(scala).toContain('  var render: js.UndefOr[js.Function0[Unit] | js.Function1[HTMLElement, Unit]] = js.native\n}')
+    expect(diagnostics).toEqual([
+      { severity: 'info', message: 'Overloads of optional method render merged into one field typed as the union of their function types', line: 2, column: 3, nodeKind: 'MethodDeclaration', fallback: undefined }
+    ])
+  })
+})
+
+describe('Import mappings', () => {
+  it('should import names from the Scala package mapped to their module', () => {
+    const input = 'import { Sprite, Texture as Image } from "pixi.js"\nimport * as PIXI from "pixi.js"\ndeclare const sprite: Sprite;'
+    const actual = convertTsToScala(input, 'imports', {
+      importMappings: {
+        'pixi.js': 'typings.pixi'
+      }
+    })
+
+    expect(actual).toContain('import typings.pixi.Sprite\nimport typings.pixi.{Texture => Image}\nimport typings.{pixi => PIXI}\n')
+    expect(actual).toContain('val sprite: Sprite = js.native')
+  })
+})
+
+describe('Project conversion', () => {
+  it('should import names declared in other files of the project', () => {
+    const output = convertProject({
+      'shapes.d.ts': 'export interface Point { x: number; y: number }\nexport declare class Shape { origin: Point }\nexport type Color = string',
+      'scene.d.ts': 'import { Point, Shape as BaseShape, Color } from "./shapes"\nexport declare class Scene { shapes: BaseShape[]; center: Point; background: Color }'
+    }, { types: [] })
+
+    expect(Object.keys(output)).toEqual(['shapes.d.ts', 'scene.d.ts'])
+    expect(output['scene.d.ts']).toContain('import shapes.Point\nimport shapes.{Shape => BaseShape}\nimport shapes.Shapes.Color\n')
+    expect(output['scene.d.ts']).toContain('var shapes: js.Array[BaseShape] = js.native')
+    expect(output['shapes.d.ts']).toContain('package shapes {')
+  })
+
+  it('should name packages after the path of their file to tell files of the same name apart', () => {
+    const output = convertProject({
+      'a/index.d.ts': 'export interface Foo { id: number }\nexport type Id = number',
+      'b/index.d.ts': 'import { Foo, Id } from "../a/index"\nexport interface Bar { foo: Foo; id: Id }'
+    }, { types: [] })
+
+    expect(output['a/index.d.ts']).toContain('package a.index {')
+    expect(output['a/index.d.ts']).toContain('object Index extends js.Object {')
+    expect(output['b/index.d.ts']).toContain('import a.index.Foo\nimport a.index.Index.Id\n')
+    expect(output['b/index.d.ts']).toContain('package b.index {')
+  })
+
+  it('should expand utility types of object types declared in other files', () => {
+    const output = convertProject({
+      'user.d.ts': 'export interface User { id: number; name: string }',
+      'patch.d.ts': 'import { User } from "./user"\nexport type UserPatch = Partial<User>'
+    }, { types: [] })
+
+    expect(output['patch.d.ts']).toContain('trait UserPatch extends js.Object {\n  var id: js.UndefOr[Double] = js.native\n  var name: js.UndefOr[String] = js.native\n}')
+  })
+
+  it('should import utility type aliases written as traits from their package', () => {
+    const output = convertProject({
+      'user.d.ts': 'export interface User { id: number; name: string }\nexport type UserPatch = Partial<User>\nexport type Id = number',
+      'store.d.ts': 'import { UserPatch, Id } from "./user"\nexport interface Store { apply(patch: UserPatch): Id }'
+    }, { types: [] })
+
+    expect(output['user.d.ts']).toContain('trait UserPatch extends js.Object {')
+    expect(output['store.d.ts']).toContain('import user.UserPatch\nimport user.User.Id\n')
+  })
+
+  it('should only import names from the objects their file writes', () => {
+    const results = convertProjectWithDiagnostics({
+      'align.d.ts': 'export type Align = "left" | "right"',
+      'factory.d.ts': 'export declare function make(): void',
+      'layout.d.ts': 'import { Align } from "./align"\nimport { make } from "./factory"\nexport interface Layout { align: Align }'
+    }, { types: [] }, { literalUnionFacades: true })
+
+    expect(results['align.d.ts'].scala).toContain('sealed trait Align extends js.Any')
+    expect(results['layout.d.ts'].scala).toContain('import align.Align\n\npackage layout {')
+    expect(results['layout.d.ts'].diagnostics).toEqual([
+      { severity: 'warning', message: 'make was not imported, as its file writes no Scala facade for it', line: 2, column: 10, nodeKind: 'Identifier', fallback: undefined }
+    ])
+  })
+
+  it('should resolve type queries of values declared in other files', () => {
+    const output = convertProject({
+      'config.d.ts': 'export declare const defaults: string[]',
+      'client.d.ts': 'import { defaults } from "./config"\nexport declare const fallback: typeof defaults'
+    }, { types: [] })
+
+    expect(output['client.d.ts']).toContain('val fallback: js.Array[String] = js.native')
+  })
+
+  it('should not resolve type queries to types that are not imported', () => {
+    const results = convertProjectWithDiagnostics({
+      'user.d.ts': 'export interface User { id: number }\nexport declare function make(): User\nexport declare const version: string',
+      'factory.d.ts': 'import { make } from "./user"\nexport declare const create: typeof make',
+      'typed.d.ts': 'import { make, User } from "./user"\nexport declare const create: typeof make'
+    }, { types: [] })
+
+    expect(results['factory.d.ts'].scala).toContain('val create: js.Any = js.native')
+    expect(results['factory.d.ts'].diagnostics).toEqual([
+      { severity: 'warning', message: 'Type query typeof make converted to js.Any, as the types of make are not in scope here', line: 2, column: 30, nodeKind: 'TypeQuery', fallback: 'js.Any' }
+    ])
+    expect(results['typed.d.ts'].scala).toContain('val create: js.Function0[User] = js.native')
+  })
+
+  it('should report the diagnostics of each file', () => {
+    const results = convertProjectWithDiagnostics({
+      'keys.d.ts': 'export interface Box { keys: keyof Box }',
+      'plain.d.ts': 'export interface Point { x: number }'
+    }, { types: [] })
+
+    expect(results['keys.d.ts'].scala).toContain('var keys: String = js.native')
+    expect(results['keys.d.ts'].diagnostics).toEqual([
+      { severity: 'info', message: 'keyof type approximated as String', line: 1, column: 30, nodeKind: 'TypeOperator', fallback: 'String' }
+    ])
+    expect(results['plain.d.ts'].diagnostics).toEqual([])
+  })
+})
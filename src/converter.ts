@@ -4,7 +4,126 @@ import CodeBlockWriter from 'code-block-writer'
 // Shared Scala reserved words list
 const SCALA_RESERVED_WORDS = ['abstract', 'case', 'catch', 'class', 'def', 'do', 'else', 'extends', 'false', 'final', 'finally', 'for', 'forSome', 'if', 'implicit', 'import', 'lazy', 'macro', 'match', 'new', 'null', 'object', 'override', 'package', 'private', 'protected', 'return', 'sealed', 'super', 'then', 'this', 'throw', 'trait', 'try', 'true', 'type', 'val', 'var', 'while', 'with', 'yield']
 
-export function convertTsToScala(input: string, packageName: string): string {
+// Common TypeScript and standard library types and their Scala.js equivalents
+export const DEFAULT_TYPE_MAPPINGS: Readonly<Record<string, string>> = {
+  'null': 'Null',
+  'undefined': 'Unit',
+  'Object': 'js.Object',
+  'Function': 'js.Function',
+  'Float32Array': 'js.typedarray.Float32Array',
+  'Float64Array': 'js.typedarray.Float64Array',
+  'Uint8Array': 'js.typedarray.Uint8Array',
+  'Uint16Array': 'js.typedarray.Uint16Array',
+  'Uint32Array': 'js.typedarray.Uint32Array',
+  'Int8Array': 'js.typedarray.Int8Array',
+  'Int16Array': 'js.typedarray.Int16Array',
+  'Int32Array': 'js.typedarray.Int32Array',
+  'Uint8ClampedArray': 'js.typedarray.Uint8ClampedArray',
+  'ArrayBuffer': 'js.typedarray.ArrayBuffer',
+  'ArrayBufferView': 'js.typedarray.ArrayBufferView',
+  'DataView': 'js.typedarray.DataView',
+  'ReadonlyArray': 'js.Array',
+  'PromiseLike': 'js.Thenable',
+  'Promise': 'js.Promise',
+  'Map': 'js.Map',
+  'ReadonlyMap': 'js.Map',
+  'WeakMap': 'js.WeakMap',
+  'Set': 'js.Set',
+  'ReadonlySet': 'js.Set',
+  'WeakSet': 'js.WeakSet',
+  'Date': 'js.Date',
+  'RegExp': 'js.RegExp',
+  'Error': 'js.Error',
+  'EvalError': 'js.EvalError',
+  'RangeError': 'js.RangeError',
+  'ReferenceError': 'js.ReferenceError',
+  'SyntaxError': 'js.SyntaxError',
+  'TypeError': 'js.TypeError',
+  'URIError': 'js.URIError',
+  'Iterable': 'js.Iterable',
+  'Iterator': 'js.Iterator',
+  'IterableIterator': 'js.Iterator',
+  'Symbol': 'js.Symbol',
+  'BigInt': 'js.BigInt'
+}
+
+export interface ConverterOptions {
+  // Extra TypeScript to Scala.js type mappings, taking precedence over DEFAULT_TYPE_MAPPINGS
+  typeMappings?: Record<string, string>
+  // Emit type aliases of string or numeric literal unions as sealed types with a constant per literal
+  literalUnionFacades?: boolean
+  // Scala package of the facade of each imported module specifier; by default, packages are named
+  // after their specifier and relative modules after their file
+  importMappings?: Record<string, string>
+  // Spaces per indentation level (2 by default), or tabs instead
+  indentWidth?: number
+  useTabs?: boolean
+  // Imports written at the top of every file, DEFAULT_HEADER_IMPORTS by default
+  headerImports?: string[]
+  // Return type of functions and methods declared without one; by default Unit
+  // for class methods and global functions, and js.Dynamic for the others
+  defaultReturnType?: string
+  // Keyword of readonly properties; by default def, or val for static class properties
+  readonlyKeyword?: 'def' | 'val'
+  // Name of the object holding top-level functions, variables and type aliases; the capitalized package name by default
+  globalObjectName?: string
+  // End lines with a "// TODO" comment quoting the TypeScript types they converted lossily
+  todoComments?: boolean
+}
+
+export const DEFAULT_HEADER_IMPORTS: readonly string[] = ['scala.scalajs.js', 'js.annotation._', 'js.|']
+
+// A construct the converter could not convert faithfully
+export interface ConversionDiagnostic {
+  // Warnings lose information, infos approximate it
+  severity: 'warning' | 'info'
+  message: string
+  // 1-based position of the construct in the TypeScript input
+  line: number
+  column: number
+  nodeKind: string
+  // What was emitted instead, if anything
+  fallback?: string
+}
+
+export interface ConversionResult {
+  scala: string
+  diagnostics: ConversionDiagnostic[]
+}
+
+// State of the conversion currently running, which runConversion sets up and clears again when it ends
+interface ConversionContext {
+  options: ConverterOptions
+  diagnostics: ConversionDiagnostic[]
+  // Checker of the program being converted by convertProject, resolving names across its files
+  checker?: ts.TypeChecker
+  // Traits synthesized for the inline types of the file being written
+  inlineTraits: Map<string, InlineSynthesizedTrait>
+  // Where constants objects of the merged declaration being written go
+  siblingScope?: SiblingObjectScope
+}
+
+function createConversionContext(options: ConverterOptions = {}, checker?: ts.TypeChecker): ConversionContext {
+  return { options, diagnostics: [], checker, inlineTraits: new Map() }
+}
+
+let activeContext = createConversionContext()
+
+function runConversion<T>(options: ConverterOptions, checker: ts.TypeChecker | undefined, convert: () => T): T {
+  activeContext = createConversionContext(options, checker)
+  try {
+    return convert()
+  } finally {
+    // Nothing of the converted program stays reachable once the conversion ends
+    activeContext = createConversionContext()
+  }
+}
+
+export function convertTsToScala(input: string, packageName: string, options: ConverterOptions = {}): string {
+  return convertTsToScalaWithDiagnostics(input, packageName, options).scala
+}
+
+export function convertTsToScalaWithDiagnostics(input: string, packageName: string, options: ConverterOptions = {}): ConversionResult {
   // Parse TypeScript input
   const sourceFile = ts.createSourceFile(
     'input.d.ts',
@@ -13,30 +132,299 @@ export function convertTsToScala(input: string, packageName: string): string {
     true
   )
 
-  // Create code writer
-  const writer = new CodeBlockWriter({
-    indentNumberOfSpaces: 2,
+  // Generate Scala output
+  return runConversion(options, undefined, () => {
+    const writer = createWriter()
+    generateScalaOutput(sourceFile, writer, packageName, collectImports(sourceFile))
+    // Diagnostics are reported in output order, which differs from the input order
+    const diagnostics = [...activeContext.diagnostics].sort((a, b) => a.line - b.line || a.column - b.column)
+    return { scala: moveMarkersToComments(writer.toString()), diagnostics }
+  })
+}
+
+function reportDiagnostic(node: ts.Node, severity: ConversionDiagnostic['severity'], message: string, fallback?: string): void {
+  const sourceFile = node.getSourceFile()
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+  // Converted types carry the markers of their comments, which only belong in the Scala output
+  const diagnostic: ConversionDiagnostic = { severity, message: removeMarkers(message), line: line + 1, column: character + 1, nodeKind: ts.SyntaxKind[node.kind], fallback: fallback && removeMarkers(fallback) }
+  // Types are converted again for every overload they appear in
+  const isDuplicate = activeContext.diagnostics.some(d => d.line === diagnostic.line && d.column === diagnostic.column && d.message === diagnostic.message)
+  if (!isDuplicate) activeContext.diagnostics.push(diagnostic)
+}
+
+// Start and end of the TypeScript text of a lossily converted type, marked inline
+// while converting and moved to a comment at the end of its line afterwards
+const TODO_MARKER_START = '\u0001'
+const TODO_MARKER_END = '\u0002'
+// Same for the patterns of template literal types, which are always kept
+const NOTE_MARKER_START = '\u0003'
+const NOTE_MARKER_END = '\u0004'
+
+// Reports a type converted to a less precise one and returns that type, marked with the original text when asked for
+function convertLossyType(node: ts.Node, severity: ConversionDiagnostic['severity'], message: string, fallback: string): string {
+  reportDiagnostic(node, severity, message, fallback)
+  if (!activeContext.options.todoComments) return fallback
+  const text = node.getText().replace(/\s+/g, ' ')
+  return `${fallback}${TODO_MARKER_START}${text}${TODO_MARKER_END}`
+}
+
+function removeMarkers(text: string): string {
+  return text.replace(new RegExp(`${TODO_MARKER_START}[^${TODO_MARKER_END}]*${TODO_MARKER_END}|${NOTE_MARKER_START}[^${NOTE_MARKER_END}]*${NOTE_MARKER_END}`, 'g'), '')
+}
+
+function moveMarkersToComments(scala: string): string {
+  const todoMarker = new RegExp(`${TODO_MARKER_START}([^${TODO_MARKER_END}]*)${TODO_MARKER_END}`, 'g')
+  const noteMarker = new RegExp(`${NOTE_MARKER_START}([^${NOTE_MARKER_END}]*)${NOTE_MARKER_END}`, 'g')
+  return scala.split('\n').map(line => {
+    const originals: string[] = []
+    const notes: string[] = []
+    let converted = line.replace(todoMarker, (_, text: string) => {
+      originals.push(text)
+      return ''
+    })
+    converted = converted.replace(noteMarker, (_, text: string) => {
+      if (!notes.includes(text)) notes.push(text)
+      return ''
+    })
+    if (notes.length > 0) converted += ` // ${notes.join('; ')}`
+    return originals.length > 0 ? `${converted} // TODO: ${originals.join('; ')}` : converted
+  }).join('\n')
+}
+
+// Creates a code writer indenting as the active options ask
+function createWriter(): CodeBlockWriter {
+  return new CodeBlockWriter({
+    indentNumberOfSpaces: activeContext.options.indentWidth ?? 2,
     newLine: '\n',
-    useTabs: false
+    useTabs: activeContext.options.useTabs ?? false
   })
+}
 
-  // Generate Scala output
-  generateScalaOutput(sourceFile, writer, packageName)
+// Converts every root file of a TypeScript program, keyed by file name. Files are read from disk unless
+// their content is given, and names imported from other root files are imported from their Scala package
+export function convertProject(rootFiles: readonly string[] | Record<string, string>, compilerOptions: ts.CompilerOptions = {}, options: ConverterOptions = {}): Record<string, string> {
+  const results = convertProjectWithDiagnostics(rootFiles, compilerOptions, options)
+  return Object.fromEntries(Object.entries(results).map(([fileName, result]) => [fileName, result.scala]))
+}
+
+export function convertProjectWithDiagnostics(rootFiles: readonly string[] | Record<string, string>, compilerOptions: ts.CompilerOptions = {}, options: ConverterOptions = {}): Record<string, ConversionResult> {
+  const host = ts.createCompilerHost(compilerOptions, true)
+
+  // The program refers to files by absolute path, while the output keeps the given names
+  const currentDirectory = host.getCurrentDirectory()
+  const givenFileNames = Array.isArray(rootFiles) ? rootFiles as readonly string[] : Object.keys(rootFiles)
+  const absoluteFileName = (fileName: string) => /^([a-zA-Z]:)?[/\\]/.test(fileName) ? fileName : `${currentDirectory}/${fileName.replace(/^\.\//, '')}`
+  const rootFileNames = givenFileNames.map(absoluteFileName)
+  const fileContents: Record<string, string> = {}
+  if (!Array.isArray(rootFiles)) {
+    givenFileNames.forEach((fileName, i) => { fileContents[rootFileNames[i]] = (rootFiles as Record<string, string>)[fileName] })
+  }
+
+  const getSourceFile = host.getSourceFile
+  host.getSourceFile = (fileName, languageVersion, ...rest) => fileName in fileContents
+    ? ts.createSourceFile(fileName, fileContents[fileName], languageVersion, true)
+    : getSourceFile(fileName, languageVersion, ...rest)
+  const fileExists = host.fileExists
+  host.fileExists = fileName => fileName in fileContents || fileExists(fileName)
+  const readFile = host.readFile
+  host.readFile = fileName => fileName in fileContents ? fileContents[fileName] : readFile(fileName)
+  // Module resolution looks for the directories of in-memory files too
+  const directoryExists = host.directoryExists?.bind(host)
+  host.directoryExists = directoryName => Object.keys(fileContents).some(fileName => fileName.startsWith(`${directoryName}/`)) || (directoryExists?.(directoryName) ?? true)
+
+  const program = ts.createProgram(rootFileNames, compilerOptions, host)
+  const checker = program.getTypeChecker()
+
+  // Each file gets its own package, named after its path from the directory holding all of them
+  // (e.g. a.index for a/index.d.ts), so that files of the same name in different directories do not clash
+  const rootDirectory = getCommonDirectory(rootFileNames)
+  const packageNames = new Map<ts.SourceFile, string>()
+  const outputFileNames = new Map<ts.SourceFile, string>()
+  givenFileNames.forEach((fileName, i) => {
+    const sourceFile = program.getSourceFile(rootFileNames[i])
+    if (sourceFile) {
+      outputFileNames.set(sourceFile, fileName)
+      packageNames.set(sourceFile, getProjectPackageName(rootFileNames[i], rootDirectory))
+    }
+  })
+
+  const output: Record<string, ConversionResult> = {}
+  runConversion(options, checker, () => {
+    packageNames.forEach((packageName, sourceFile) => {
+      // Each file collects the diagnostics of its own declarations
+      activeContext.diagnostics = []
+      const writer = createWriter()
+      generateScalaOutput(sourceFile, writer, packageName, collectImports(sourceFile, { checker, packageNames }))
+      const diagnostics = [...activeContext.diagnostics].sort((a, b) => a.line - b.line || a.column - b.column)
+      output[outputFileNames.get(sourceFile)!] = { scala: moveMarkersToComments(writer.toString()), diagnostics }
+    })
+  })
+  return output
+}
+
+// A TypeScript program whose root files are converted together
+interface ProjectContext {
+  checker: ts.TypeChecker
+  packageNames: Map<ts.SourceFile, string>
+}
+
+// Scala imports for the names a file imports from other modules. Names declared in another file of the project
+// are imported from its facade, others from the Scala package their module specifier maps to
+function collectImports(sourceFile: ts.SourceFile, project?: ProjectContext): string[] {
+  // Symbol table of the Scala path each imported name refers to
+  const symbols = new Map<string, string[]>()
+  sourceFile.statements.forEach(statement => {
+    let specifier: string | undefined
+    // Bindings without an imported name stand for the whole module
+    const bindings: {localName: ts.Identifier, importedName?: string}[] = []
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier) && statement.importClause) {
+      specifier = statement.moduleSpecifier.text
+      const { name, namedBindings } = statement.importClause
+      if (name) bindings.push({ localName: name, importedName: name.text })
+      if (namedBindings && ts.isNamedImports(namedBindings)) {
+        namedBindings.elements.forEach(element => bindings.push({ localName: element.name, importedName: (element.propertyName ?? element.name).text }))
+      } else if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        bindings.push({ localName: namedBindings.name })
+      }
+    } else if (ts.isImportEqualsDeclaration(statement) && ts.isExternalModuleReference(statement.moduleReference) && ts.isStringLiteral(statement.moduleReference.expression)) {
+      specifier = statement.moduleReference.expression.text
+      bindings.push({ localName: statement.name })
+    }
+    if (specifier === undefined) return
+
+    const modulePackage = (activeContext.options.importMappings?.[specifier] ?? getModulePackageName(specifier)).split('.')
+    bindings.forEach(({ localName, importedName }) => {
+      const projectPath = project && resolveProjectImport(localName, project)
+      if (projectPath === null) {
+        reportDiagnostic(localName, 'warning', `${localName.text} was not imported, as its file writes no Scala facade for it`)
+        return
+      }
+      symbols.set(localName.text, projectPath ?? (importedName ? [...modulePackage, importedName] : modulePackage))
+    })
+  })
+
+  const imports: string[] = []
+  symbols.forEach((path, localName) => {
+    const name = path[path.length - 1]
+    if (name === localName) {
+      if (path.length > 1) imports.push(`import ${path.join('.')}`)
+    } else {
+      const prefix = path.length > 1 ? path.slice(0, -1).join('.') : '_root_'
+      imports.push(`import ${prefix}.{${name} => ${localName}}`)
+    }
+  })
+  return imports
+}
+
+// Scala path of a name declared in another file of the project, or null if that file writes no facade for it
+function resolveProjectImport(localName: ts.Identifier, project: ProjectContext): string[] | null | undefined {
+  const symbol = project.checker.getSymbolAtLocation(localName)
+  const declaration = symbol && project.checker.getAliasedSymbol(symbol).declarations?.[0]
+  const packageName = declaration && project.packageNames.get(declaration.getSourceFile())
+  if (!declaration || !packageName) return undefined
+  return ts.isSourceFile(declaration) ? [packageName] : getScalaDeclarationPath(declaration, packageName) ?? null
+}
+
+// Package of a module that is not part of the converted files: relative modules are
+// named after their file, like in convertProject, and packages after their specifier
+function getModulePackageName(specifier: string): string {
+  return specifier.startsWith('.') ? getFilePackageName(specifier) : externalModulePackageName(specifier)
+}
+
+// Directory segments shared by all the given absolute file names
+function getCommonDirectory(fileNames: readonly string[]): string[] {
+  const directories = fileNames.map(fileName => fileName.split(/[/\\]/).slice(0, -1))
+  const common = directories[0] ?? []
+  let length = common.length
+  directories.forEach(directory => {
+    while (length > 0 && directory.slice(0, length).join('/') !== common.slice(0, length).join('/')) length--
+  })
+  return common.slice(0, length)
+}
+
+function getProjectPackageName(fileName: string, rootDirectory: string[]): string {
+  const segments = fileName.split(/[/\\]/).slice(rootDirectory.length)
+  return segments.map(segment => {
+    const name = getFilePackageName(segment)
+    return /^[a-zA-Z_]/.test(name) && !SCALA_RESERVED_WORDS.includes(name) ? name : `\`${name}\``
+  }).join('.')
+}
+
+// Name of the object holding the top-level values of a package, named after its last segment by default
+function getGlobalObjectName(packageName: string): string {
+  return activeContext.options.globalObjectName ?? capitalize(packageName.split('.').pop()!.replace(/`/g, ''))
+}
+
+function getFilePackageName(fileName: string): string {
+  const baseName = fileName.split(/[/\\]/).pop()!.replace(/(\.d)?\.tsx?$/, '')
+  return baseName.replace(/[^a-zA-Z0-9_]/g, '_')
+}
+
+// Path of the Scala facade of a declaration, following the packages and objects it is emitted in
+function getScalaDeclarationPath(declaration: ts.Declaration, packageName: string): string[] | undefined {
+  const name = ts.getNameOfDeclaration(declaration)
+  if (!name || !ts.isIdentifier(name)) return undefined
+
+  const namespaces: string[] = []
+  let packagePath = [packageName]
+  let rootObjectName = getGlobalObjectName(packageName)
+  for (let parent = declaration.parent; parent && !ts.isSourceFile(parent); parent = parent.parent) {
+    if (!ts.isModuleDeclaration(parent)) continue
+    if (ts.isStringLiteral(parent.name)) {
+      // External modules are packages of their own, named after their specifier
+      packagePath = [packageName, externalModulePackageName(parent.name.text)]
+      rootObjectName = externalModuleObjectName(parent.name.text)
+      break
+    }
+    namespaces.unshift(parent.name.text)
+  }
+
+  // Type aliases, functions and variables are members of the module object or global scope object, unless
+  // they are written on their own (e.g. literal union facades); an object that is not written has no members
+  const statement = ts.isVariableDeclaration(declaration) ? declaration.parent.parent : declaration
+  const scope = statement.parent
+  if (!ts.isSourceFile(scope) && !ts.isModuleBlock(scope)) return [...packagePath, ...namespaces, name.text]
+  const objectMembers = getScopeObjectMembers(scope)
+  if (!objectMembers.members.includes(declaration)) return [...packagePath, ...namespaces, name.text]
+  if (!objectMembers.isWritten) return undefined
+  const objectName = namespaces.length > 0 ? capitalize(namespaces[namespaces.length - 1]) : rootObjectName
+  return [...packagePath, ...namespaces, objectName, name.text]
+}
 
-  return writer.toString()
+// Declarations that generateScalaOutput (for a file) or processModuleBody (for a namespace or external module)
+// write into the global scope object or module object, and whether they write that object at all
+function getScopeObjectMembers(scope: ts.SourceFile | ts.ModuleBlock): { members: ts.Declaration[], isWritten: boolean } {
+  const isGlobalScope = ts.isSourceFile(scope)
+  const constructorVariables = collectConstructorVariables(scope.statements)
+  const mergedDeclarations = collectMergedDeclarations(scope.statements, constructorVariables)
+  const members = scope.statements.flatMap((statement): ts.Declaration[] => {
+    if (mergedDeclarations.has(getMergeableName(statement) ?? '')) return []
+    if (ts.isTypeAliasDeclaration(statement)) return isLiteralUnionFacade(statement) || isSynthesizedTrait(statement) ? [] : [statement]
+    if (ts.isFunctionDeclaration(statement)) return [statement]
+    if (!ts.isVariableStatement(statement)) return []
+    return statement.declarationList.declarations.filter(decl => !constructorVariables.has(decl.name.getText()) &&
+      (isGlobalScope ? (decl.type ? !ts.isTypeLiteralNode(decl.type) : !!decl.initializer) : !(decl.type && ts.isTypeLiteralNode(decl.type))))
+  })
+  // Functions alone do not make a file write its global scope object
+  const isWritten = isGlobalScope
+    ? members.some(member => !ts.isFunctionDeclaration(member)) || scope.statements.some(ts.isExportAssignment)
+    : members.length > 0
+  return { members, isWritten }
 }
 
-function generateScalaOutput(sourceFile: ts.SourceFile, writer: CodeBlockWriter, packageName: string): void {
+function generateScalaOutput(sourceFile: ts.SourceFile, writer: CodeBlockWriter, packageName: string, imports: string[] = []): void {
+  activeContext.inlineTraits = new Map()
   // Write standard imports
   writer.writeLine('')
-  writer.writeLine('import scala.scalajs.js')
-  writer.writeLine('import js.annotation._')
-  writer.writeLine('import js.|')
+  const headerImports = activeContext.options.headerImports ?? DEFAULT_HEADER_IMPORTS
+  headerImports.forEach(headerImport => writer.writeLine(`import ${headerImport}`))
+  imports.forEach(line => writer.writeLine(line))
   writer.writeLine('')
 
-  // Write package declaration
+  // Write package declaration; qualified names (e.g. a.index from convertProject) come with their segments escaped
   // Use shared SCALA_RESERVED_WORDS constant
-  const packageDeclaration = packageName.includes('-') || !packageName.match(/^[a-zA-Z_][a-zA-Z0-9_]*$/) || SCALA_RESERVED_WORDS.includes(packageName)
+  const isQualifiedName = /^(`[^`]+`|[a-zA-Z_][a-zA-Z0-9_]*)(\.(`[^`]+`|[a-zA-Z_][a-zA-Z0-9_]*))+$/.test(packageName)
+  const packageDeclaration = !isQualifiedName && (packageName.includes('-') || !packageName.match(/^[a-zA-Z_][a-zA-Z0-9_]*$/) || SCALA_RESERVED_WORDS.includes(packageName))
     ? `package \`${packageName}\`` 
     : `package ${packageName}`
     
@@ -51,8 +439,25 @@ function generateScalaOutput(sourceFile: ts.SourceFile, writer: CodeBlockWriter,
       variables: []
     }
     
+    const constructorVariables = collectConstructorVariables(sourceFile.statements)
+    const mergedDeclarations = collectMergedDeclarations(sourceFile.statements, constructorVariables)
+    const emittedMerges = new Set<MergedDeclaration>()
+    
     // Process top-level declarations and collect exports
     sourceFile.statements.forEach(statement => {
+      // Instance interfaces are merged into the class of their constructor variable
+      if (ts.isInterfaceDeclaration(statement) && constructorVariables.has(statement.name.text)) return
+      
+      // Merged declarations are emitted together where the first of them appears
+      const merged = mergedDeclarations.get(getMergeableName(statement) ?? '')
+      if (merged) {
+        if (!emittedMerges.has(merged)) {
+          emittedMerges.add(merged)
+          processMergedDeclaration(merged, writer, '')
+        }
+        return
+      }
+      
       if (hasExportModifier(statement)) {
         if (ts.isInterfaceDeclaration(statement)) {
           topLevelExports.interfaces.push(statement)
@@ -69,11 +474,14 @@ function generateScalaOutput(sourceFile: ts.SourceFile, writer: CodeBlockWriter,
       } else if (ts.isVariableStatement(statement)) {
         // Collect variable declarations that should go in global scope
         statement.declarationList.declarations.forEach(decl => {
-          if (decl.type && !ts.isTypeLiteralNode(decl.type)) {
+          const constructorVariable = constructorVariables.get(decl.name.getText())
+          if (constructorVariable) {
+            processConstructorVariable(constructorVariable, writer, '')
+          } else if (decl.type ? !ts.isTypeLiteralNode(decl.type) : decl.initializer) {
             topLevelExports.variables.push(decl)
           }
         })
-      } else if (ts.isTypeAliasDeclaration(statement)) {
+      } else if (ts.isTypeAliasDeclaration(statement) && !isLiteralUnionFacade(statement) && !isSynthesizedTrait(statement)) {
         // Collect ALL type aliases for global scope object (both exported and non-exported)
         topLevelExports.types.push(statement)
       }
@@ -86,37 +494,47 @@ function generateScalaOutput(sourceFile: ts.SourceFile, writer: CodeBlockWriter,
       generateGlobalScopeObject(packageName, topLevelExports, writer)
     }
     
-    // Add blank line before closing package brace
-    writer.setIndentationLevel(0)
-    writer.newLine()
-    
     // Add extra blank line for module-based structure (when there are modules)
     const hasModules = sourceFile.statements.some(stmt => ts.isModuleDeclaration(stmt))
     if (hasModules) {
       writer.newLine()
     }
+    writeInlineTraits(writer)
+    
+    // Add blank line before closing package brace
+    writer.setIndentationLevel(0)
+    writer.newLine()
   })
 }
 
-function processStatement(statement: ts.Statement, writer: CodeBlockWriter, namespace: string): void {
+// Describes the external module (`declare module "pkg" { ... }`) a declaration lives in,
+// so that its facade can be imported with @JSImport instead of read from the global scope
+interface ExternalModule {
+  specifier: string
+  defaultExport?: string
+  exportEquals?: string
+}
+
+// Declarations nested in a native object are read from that object, so they get no @JSGlobal or @JSImport annotation
+function processStatement(statement: ts.Statement, writer: CodeBlockWriter, namespace: string, externalModule?: ExternalModule, nested = false): void {
   switch (statement.kind) {
     case ts.SyntaxKind.ModuleDeclaration:
-      processModuleDeclaration(statement as ts.ModuleDeclaration, writer, namespace)
+      processModuleDeclaration(statement as ts.ModuleDeclaration, writer, namespace, externalModule, nested)
       break
     case ts.SyntaxKind.ClassDeclaration:
-      processClassDeclaration(statement as ts.ClassDeclaration, writer, namespace)
+      processClassDeclaration(statement as ts.ClassDeclaration, writer, namespace, externalModule, nested)
       break
     case ts.SyntaxKind.InterfaceDeclaration:
-      processInterfaceDeclaration(statement as ts.InterfaceDeclaration, writer, namespace)
+      processInterfaceDeclaration(statement as ts.InterfaceDeclaration, writer, namespace, externalModule, nested)
       break
     case ts.SyntaxKind.EnumDeclaration:
-      processEnumDeclaration(statement as ts.EnumDeclaration, writer, namespace)
+      processEnumDeclaration(statement as ts.EnumDeclaration, writer, namespace, externalModule, nested)
       break
     case ts.SyntaxKind.TypeAliasDeclaration:
-      processTypeAliasDeclaration(statement as ts.TypeAliasDeclaration, writer, namespace)
+      processTypeAliasDeclaration(statement as ts.TypeAliasDeclaration, writer, namespace, nested)
       break
     case ts.SyntaxKind.VariableStatement:
-      processVariableStatement(statement as ts.VariableStatement, writer, namespace)
+      processVariableStatement(statement as ts.VariableStatement, writer, namespace, externalModule, nested)
       break
     case ts.SyntaxKind.FunctionDeclaration:
       processFunctionDeclaration(statement as ts.FunctionDeclaration, writer, namespace)
@@ -128,17 +546,20 @@ function processStatement(statement: ts.Statement, writer: CodeBlockWriter, name
       processExportAssignment(statement as ts.ExportAssignment, writer, namespace)
       break
     case ts.SyntaxKind.ImportDeclaration:
-      // Skip import declarations - they're just references
+    case ts.SyntaxKind.ImportEqualsDeclaration:
+      // Imports are written at the top of the file by collectImports
       break
     default:
       // Skip unhandled statement types
+      reportDiagnostic(statement, 'warning', `Unsupported statement ${ts.SyntaxKind[statement.kind]} was skipped`)
       break
   }
 }
 
-function processModuleDeclaration(node: ts.ModuleDeclaration, writer: CodeBlockWriter, namespace: string): void {
-  // Skip module declarations whose name is a string literal (e.g. "declare module \"pixi.js\"")
+function processModuleDeclaration(node: ts.ModuleDeclaration, writer: CodeBlockWriter, namespace: string, externalModule?: ExternalModule, nested = false): void {
+  // Module declarations whose name is a string literal (e.g. "declare module \"pixi.js\"") are external modules
   if (ts.isStringLiteral(node.name)) {
+    processExternalModuleDeclaration(node, writer)
     return
   }
 
@@ -152,51 +573,160 @@ function processModuleDeclaration(node: ts.ModuleDeclaration, writer: CodeBlockW
   writer.newLine()
   const currentIndentLevel = writer.getIndentationLevel()
   writer.setIndentationLevel(0)
+
+  // Packages cannot be nested in objects, so the namespace becomes an object itself
+  if (nested) {
+    writer.write('@js.native').newLine()
+    writer.write(`object ${safeModuleName} extends js.Object `).block(() => {
+      const body = node.body
+      if (body && ts.isModuleBlock(body)) {
+        writeNested(writer, nestedWriter => processModuleBody(body.statements, nestedWriter, newNamespace, moduleName, '', externalModule, true))
+      } else if (body && ts.isModuleDeclaration(body)) {
+        writeNested(writer, nestedWriter => processModuleDeclaration(body, nestedWriter, newNamespace, externalModule, true))
+      }
+    })
+    writer.newLine()
+    writer.setIndentationLevel(currentIndentLevel)
+    return
+  }
+
   writer.write(`package ${safeModuleName} `).block(() => {
     
     if (node.body && ts.isModuleBlock(node.body)) {
-        // Collect exports for module object
+      const moduleAnnotation = externalModule
+        ? jsImportAnnotation(moduleName, namespace, externalModule)
+        : `@JSGlobal("${newNamespace}")`
+      processModuleBody(node.body.statements, writer, newNamespace, capitalize(moduleName), moduleAnnotation, externalModule)
+    } else if (node.body && ts.isModuleDeclaration(node.body)) {
+      // Dotted namespaces ("namespace A.B.C") nest each remaining segment as a module declaration
+      processModuleDeclaration(node.body, writer, newNamespace, externalModule)
+    }
+    
+    // Add blank line before closing package brace
+    writer.setIndentationLevel(0)
+    writer.newLine()
+  })
+  writer.setIndentationLevel(currentIndentLevel)
+}
+
+function processExternalModuleDeclaration(node: ts.ModuleDeclaration, writer: CodeBlockWriter): void {
+  if (!node.body || !ts.isModuleBlock(node.body)) return
+  const statements = node.body.statements
+
+  // Skip modules that only re-export declarations living outside of them (e.g. "export = PIXI")
+  const hasDeclarations = statements.some(statement =>
+    ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) || ts.isEnumDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) || ts.isFunctionDeclaration(statement) || ts.isVariableStatement(statement) ||
+    ts.isModuleDeclaration(statement)
+  )
+  if (!hasDeclarations) return
+
+  const specifier = (node.name as ts.StringLiteral).text
+  const externalModule: ExternalModule = { specifier }
+  statements.forEach(statement => {
+    if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      if (statement.isExportEquals) {
+        externalModule.exportEquals = statement.expression.text
+      } else {
+        externalModule.defaultExport = statement.expression.text
+      }
+    } else if (hasDefaultModifier(statement)) {
+      const name = (statement as ts.DeclarationStatement).name
+      if (name && ts.isIdentifier(name)) {
+        externalModule.defaultExport = name.text
+      }
+    }
+  })
+
+  const safePackageName = externalModulePackageName(specifier)
+  const objectName = externalModuleObjectName(specifier)
+
+  writer.newLine()
+  const currentIndentLevel = writer.getIndentationLevel()
+  writer.setIndentationLevel(0)
+  writer.write(`package ${safePackageName} `).block(() => {
+    processModuleBody(statements, writer, '', objectName, `@JSImport("${specifier}", JSImport.Namespace)`, externalModule)
+
+    // Add blank line before closing package brace
+    writer.setIndentationLevel(0)
+    writer.newLine()
+  })
+  writer.setIndentationLevel(currentIndentLevel)
+}
+
+function externalModulePackageName(specifier: string): string {
+  const packageName = specifier.replace(/^@/, '').replace(/[^a-zA-Z0-9_]/g, '_')
+  return /^[a-zA-Z_]/.test(packageName) && !SCALA_RESERVED_WORDS.includes(packageName) ? packageName : `\`${packageName}\``
+}
+
+function externalModuleObjectName(specifier: string): string {
+  return specifier.split(/[^a-zA-Z0-9]+/).filter(part => part).map(capitalize).join('')
+}
+
+function processModuleBody(statements: readonly ts.Statement[], writer: CodeBlockWriter, namespace: string, objectName: string, objectAnnotation: string, externalModule?: ExternalModule, nested = false): void {
+  // Collect exports for module object
   const exports: {interfaces: ts.InterfaceDeclaration[], types: ts.TypeAliasDeclaration[], functions: ts.FunctionDeclaration[], variables: ts.VariableDeclaration[]} = {
     interfaces: [],
     types: [],
     functions: [],
     variables: []
   }
-      
-      // Process declarations and collect exports
-      node.body.statements.forEach(statement => {
-        // In declare module blocks, all top-level declarations are implicitly exported
-        // So we collect all functions, types, etc., not just ones with explicit export modifier
-        if (ts.isInterfaceDeclaration(statement)) {
-          exports.interfaces.push(statement)
-        } else if (ts.isTypeAliasDeclaration(statement)) {
-          exports.types.push(statement)
-        } else if (ts.isFunctionDeclaration(statement)) {
-          exports.functions.push(statement)
-        } else if (ts.isVariableStatement(statement)) {
-          statement.declarationList.declarations.forEach(decl => {
-            if (!(decl.type && ts.isTypeLiteralNode(decl.type))) {
-              exports.variables.push(decl)
-            }
-          })
+
+  const constructorVariables = collectConstructorVariables(statements)
+  const mergedDeclarations = collectMergedDeclarations(statements, constructorVariables)
+  const emittedMerges = new Set<MergedDeclaration>()
+
+  // Process declarations and collect exports
+  statements.forEach(statement => {
+    // Instance interfaces are merged into the class of their constructor variable
+    if (ts.isInterfaceDeclaration(statement) && constructorVariables.has(statement.name.text)) return
+
+    // Merged declarations are emitted together where the first of them appears
+    const merged = mergedDeclarations.get(getMergeableName(statement) ?? '')
+    if (merged) {
+      if (!emittedMerges.has(merged)) {
+        emittedMerges.add(merged)
+        processMergedDeclaration(merged, writer, namespace, externalModule, nested)
+      }
+      return
+    }
+
+    // In declare module blocks, all top-level declarations are implicitly exported
+    // So we collect all functions, types, etc., not just ones with explicit export modifier
+    if (ts.isInterfaceDeclaration(statement)) {
+      exports.interfaces.push(statement)
+    } else if (ts.isTypeAliasDeclaration(statement) && !isLiteralUnionFacade(statement) && !isSynthesizedTrait(statement)) {
+      exports.types.push(statement)
+    } else if (ts.isFunctionDeclaration(statement)) {
+      exports.functions.push(statement)
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(decl => {
+        const constructorVariable = constructorVariables.get(decl.name.getText())
+        if (constructorVariable) {
+          processConstructorVariable(constructorVariable, writer, namespace, externalModule, nested)
+        } else if (!(decl.type && ts.isTypeLiteralNode(decl.type))) {
+          exports.variables.push(decl)
         }
-        processStatement(statement, writer, newNamespace)
       })
-      
-      // Generate module object if there are exports
-      if (exports.types.length > 0 || exports.functions.length > 0 || exports.variables.length > 0) {
-        generateModuleObject(moduleName, exports, writer)
-      }
     }
-    
-    // Add blank line before closing package brace
-    writer.setIndentationLevel(0)
-    writer.newLine()
+    processStatement(statement, writer, namespace, externalModule, nested)
   })
-  writer.setIndentationLevel(currentIndentLevel)
+
+  // Values of a namespace nested in an object are members of that object
+  if (nested) {
+    writer.setIndentationLevel(0)
+    writeModuleObjectMembers(exports, writer)
+    return
+  }
+
+  // Generate module object if there are exports
+  if (exports.types.length > 0 || exports.functions.length > 0 || exports.variables.length > 0) {
+    // Default and "export =" values only apply to the root object of an external module
+    generateModuleObject(objectName, objectAnnotation, exports, writer, namespace ? undefined : externalModule)
+  }
 }
 
-function processClassDeclaration(node: ts.ClassDeclaration, writer: CodeBlockWriter, namespace: string): void {
+function processClassDeclaration(node: ts.ClassDeclaration, writer: CodeBlockWriter, namespace: string, externalModule?: ExternalModule, nested = false, merged?: MergedDeclaration): void {
   const className = node.name?.getText() || 'AnonymousClass'
   const isAbstract = node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.AbstractKeyword)
   // const isExport = hasExportModifier(node) // Unused for now
@@ -220,28 +750,30 @@ function processClassDeclaration(node: ts.ClassDeclaration, writer: CodeBlockWri
   // Separate static members for a companion object
   const staticMethods: ts.MethodDeclaration[] = []
   const staticProperties: ts.PropertyDeclaration[] = []
+  const staticAccessors: ts.AccessorDeclaration[] = []
 
   node.members.forEach(member => {
     if (ts.canHaveModifiers(member) && ts.getModifiers(member)?.some((m: ts.Modifier) => m.kind === ts.SyntaxKind.StaticKeyword)) {
       if (ts.isMethodDeclaration(member)) staticMethods.push(member)
       else if (ts.isPropertyDeclaration(member)) staticProperties.push(member)
+      else if (ts.isAccessor(member)) staticAccessors.push(member)
     }
   })
 
   // Determine if the JS class explicitly defines constructors with parameters
+  // (the primary constructor stays public when one of them can be called without arguments)
   const ctorDeclarations = node.members.filter(ts.isConstructorDeclaration) as ts.ConstructorDeclaration[]
-  const hasParamCtor = ctorDeclarations.some(c => c.parameters.length > 0)
+  const ctorParamLists = ctorDeclarations.flatMap(c => convertParameters(c.parameters))
+  const hasParamCtor = ctorParamLists.length > 0 && !ctorParamLists.includes('')
 
+  writeDocumentation(node, writer)
   writer.write('@js.native').newLine()
   
   // @JSGlobal logic:
   // - All classes in namespaces: @JSGlobal("namespace.ClassName") 
   // - Top-level classes: @JSGlobal (no parameter)
-  if (namespace) {
-    writer.write(`@JSGlobal("${namespace}.${className}")`).newLine()
-  } else {
-    writer.write('@JSGlobal').newLine()
-  }
+  // Classes of external modules are imported with @JSImport instead
+  if (!nested) writer.write(nativeLocationAnnotation(className, namespace, externalModule)).newLine()
   
   // Handle heritage clauses (extends / implements)
   let heritageTypes: string[] = []
@@ -263,18 +795,19 @@ function processClassDeclaration(node: ts.ClassDeclaration, writer: CodeBlockWri
       extendsType = heritageTypes.shift()!
     }
   }
+  // Interfaces merged into the class add their own parents
+  merged?.interfaces.forEach(i => i.heritageClauses?.forEach(h => h.types.forEach(t => {
+    const heritageType = convertHeritageType(t)
+    if (heritageType !== extendsType && !heritageTypes.includes(heritageType)) heritageTypes.push(heritageType)
+  })))
   const heritageString = [extendsType, ...heritageTypes].join(' with ')
 
   writer.write(`${isAbstract ? 'abstract ' : ''}class ${safeClassName}${typeParamString}${hasParamCtor ? ' protected ()' : ''} extends ${heritageString} `).block(() => {
     // Add explicit secondary constructors for each JS constructor with parameters
-    ctorDeclarations.forEach(cons => {
-      if (cons.parameters.length === 0) return
-      const params = cons.parameters.map(p => {
-        const paramName = p.name.getText()
-        const paramType = p.type ? convertTypeToScala(p.type) : 'js.Any'
-        return `${paramName}: ${paramType}`
-      }).join(', ')
-      writer.writeLine(`def this(${params}) = this()`)
+    ctorDeclarations.forEach(ctor => {
+      const paramLists = convertParameters(ctor.parameters).filter(params => params)
+      if (paramLists.length > 0) writeDocumentation(ctor, writer)
+      paramLists.forEach(params => writer.writeLine(`def this(${params}) = this()`))
     })
 
     // Non-static members
@@ -282,33 +815,39 @@ function processClassDeclaration(node: ts.ClassDeclaration, writer: CodeBlockWri
       if (ts.canHaveModifiers(member) && ts.getModifiers(member)?.some((m: ts.Modifier) => m.kind === ts.SyntaxKind.StaticKeyword)) return
       processClassMember(member, writer, isAbstract)
     })
+
+    // Members of merged interfaces
+    merged?.interfaces.forEach(i => i.members.forEach(member => processInterfaceMember(member, writer)))
   })
   writer.newLine()
 
-  // Generate companion object for static members, if any
-  if (staticMethods.length > 0 || staticProperties.length > 0) {
+  // Generate companion object for static members and merged values, if any
+  if (staticMethods.length > 0 || staticProperties.length > 0 || staticAccessors.length > 0 || hasMergedValues(merged)) {
     writer.write('@js.native').newLine()
-    const baseNs = namespace ? namespace.split('.').pop()! : undefined
-    if (baseNs) {
-      writer.write(`@JSGlobal("${baseNs}.${className}")`).newLine()
-    } else {
-      writer.write('@JSGlobal').newLine()
-    }
+    if (!nested) writer.write(nativeLocationAnnotation(className, namespace, externalModule)).newLine()
     writer.write(`object ${safeClassName} extends js.Object `).block(() => {
       staticProperties.forEach(prop => {
         // Skip private or protected static members
         if (prop.modifiers?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.ProtectedKeyword))
           return
-        const propName = prop.name.getText()
+        const propName = getScalaMemberName(prop.name)
+        if (!propName) return
         const isReadonly = prop.modifiers?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)
-        const keyword = isReadonly ? 'val' : 'var'
-        const typeText = prop.type ? convertTypeToScala(prop.type) : 'js.Any'
-        writer.writeLine(`${keyword} ${propName}: ${typeText} = js.native`)
+        const keyword = isReadonly ? readonlyKeyword('val') : 'var'
+        const typeText = convertOptionalType(prop.type ? convertTypeToScala(prop.type) : 'js.Any', prop.questionToken)
+        writeDocumentation(prop, writer)
+        writeJSName(propName, writer)
+        writer.writeLine(`${keyword} ${propName.name}: ${typeText} = js.native`)
+      })
+      staticAccessors.forEach(accessor => {
+        if (accessor.modifiers?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.ProtectedKeyword)) return
+        processAccessorDeclaration(accessor, writer)
       })
       staticMethods.forEach(m => {
         if (m.modifiers?.some(mod => mod.kind === ts.SyntaxKind.PrivateKeyword || mod.kind === ts.SyntaxKind.ProtectedKeyword)) return
         processMethodDeclaration(m, writer)
       })
+      if (merged) writeMergedCompanionMembers(merged, writer, namespace, externalModule)
     })
     writer.newLine()
   }
@@ -316,12 +855,16 @@ function processClassDeclaration(node: ts.ClassDeclaration, writer: CodeBlockWri
   writer.setIndentationLevel(currentIndentLevel)
 }
 
-function processInterfaceDeclaration(node: ts.InterfaceDeclaration, writer: CodeBlockWriter, _namespace: string): void {
+function processInterfaceDeclaration(node: ts.InterfaceDeclaration, writer: CodeBlockWriter, namespace: string, externalModule?: ExternalModule, nested = false, merged?: MergedDeclaration): void {
   const interfaceName = node.name.getText()
   // const isExport = hasExportModifier(node) // Unused for now
   
+  // Merged interface declarations contribute their members and parents to a single trait
+  const declarations = merged?.interfaces ?? [node]
+  const members = declarations.flatMap(declaration => [...declaration.members])
+  
   // Handle type parameters
-  const typeParams = node.typeParameters?.map(tp => {
+  const typeParams = declarations.find(declaration => declaration.typeParameters)?.typeParameters?.map(tp => {
     const paramName = tp.name.getText()
     const constraint = tp.constraint ? ` <: ${convertTypeToScala(tp.constraint)}` : ''
     return `${paramName}${constraint}`
@@ -329,28 +872,36 @@ function processInterfaceDeclaration(node: ts.InterfaceDeclaration, writer: Code
   
   const typeParamString = typeParams.length > 0 ? `[${typeParams.join(', ')}]` : ''
   
+  // Handle heritage clauses; interfaces without any extend js.Object directly
+  const heritageTypes = [...new Set(declarations.flatMap(declaration => declaration.heritageClauses?.flatMap(h => h.types.map(t => convertHeritageType(t))) || []))]
+  const heritageString = heritageTypes.length > 0 ? heritageTypes.join(' with ') : 'js.Object'
+  
   // Helper to write the interface trait itself
   const writeInterfaceTrait = () => {
+    writeDocumentation(declarations.find(declaration => ts.getJSDocCommentsAndTags(declaration).length > 0) ?? node, writer)
     writer.write('@js.native').newLine()
-    writer.write(`trait ${interfaceName}${typeParamString} extends js.Object `).block(() => {
+    writer.write(`trait ${interfaceName}${typeParamString} extends ${heritageString} `).block(() => {
       const seen = new Set<string>()
-      node.members.forEach(member => {
+      members.forEach(member => {
         // Handle inline type literals so that we generate nested traits
         if (ts.isPropertySignature(member) && member.type && ts.isTypeLiteralNode(member.type)) {
-          const propName = member.name.getText()
-          const traitName = capitalize(propName)
+          const propName = getScalaMemberName(member.name)
+          if (!propName) return
+          const traitName = capitalize(propName.name)
           const isReadonly = member.modifiers?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)
-          const keyword = isReadonly ? 'def' : 'var'
-          const line = `${keyword} ${propName}: ${interfaceName}.${traitName} = js.native`
+          const keyword = isReadonly ? readonlyKeyword('def') : 'var'
+          const line = `${keyword} ${propName.name}: ${convertOptionalType(`${interfaceName}.${traitName}`, member.questionToken)} = js.native`
           if (!seen.has(line)) {
             seen.add(line)
+            writeDocumentation(member, writer)
+            writeJSName(propName, writer)
             writer.writeLine(line)
           }
         } else {
           const temp = new CodeBlockWriter({ indentNumberOfSpaces: 0, newLine: '\n' })
           processInterfaceMember(member, temp)
           const sig = temp.toString().trim()
-          if (!seen.has(sig)) {
+          if (sig && !seen.has(sig)) {
             seen.add(sig)
             writer.writeLine(sig)
           }
@@ -366,22 +917,29 @@ function processInterfaceDeclaration(node: ts.InterfaceDeclaration, writer: Code
   // All interfaces get the same treatment for now
   writeInterfaceTrait()
 
-  // Generate companion object with nested traits for inline object literal types
-  const inlineTypeLiteralMembers = node.members.filter(m => ts.isPropertySignature(m) && m.type && ts.isTypeLiteralNode(m.type)) as ts.PropertySignature[]
-  if (inlineTypeLiteralMembers.length > 0) {
+  // Generate companion object with nested traits for inline object literal types,
+  // which is native when merged functions or namespaces give it values
+  const inlineTypeLiteralMembers = members.filter(m => ts.isPropertySignature(m) && m.type && ts.isTypeLiteralNode(m.type) && getScalaMemberName(m.name)) as ts.PropertySignature[]
+  if (inlineTypeLiteralMembers.length > 0 || hasMergedValues(merged)) {
     writer.newLine()
-    writer.write(`object ${interfaceName} `).block(() => {
+    if (hasMergedValues(merged)) {
+      writer.write('@js.native').newLine()
+      if (!nested) writer.write(nativeLocationAnnotation(interfaceName, namespace, externalModule)).newLine()
+    }
+    writer.write(`object ${interfaceName} ${hasMergedValues(merged) ? 'extends js.Object ' : ''}`).block(() => {
       inlineTypeLiteralMembers.forEach(propSig => {
-        const traitName = capitalize(propSig.name.getText())
+        const traitName = capitalize(getScalaMemberName(propSig.name)!.name)
         const typeLiteral = propSig.type as ts.TypeLiteralNode
         // Generate nested trait
         writer.write('@js.native').newLine()
         writer.write(`trait ${traitName} extends js.Object `).block(() => {
           typeLiteral.members.forEach(nestedMember => {
             if (ts.isPropertySignature(nestedMember) && nestedMember.type && ts.isTypeLiteralNode(nestedMember.type)) {
-              const nestedPropName = nestedMember.name.getText()
-              const nestedTraitName = capitalize(nestedPropName)
-              writer.writeLine(`var ${nestedPropName}: ${traitName}.${nestedTraitName} = js.native`)
+              const nestedPropName = getScalaMemberName(nestedMember.name)
+              if (!nestedPropName) return
+              const nestedTraitName = capitalize(nestedPropName.name)
+              writeJSName(nestedPropName, writer)
+              writer.writeLine(`var ${nestedPropName.name}: ${convertOptionalType(`${traitName}.${nestedTraitName}`, nestedMember.questionToken)} = js.native`)
             } else {
               processInterfaceMember(nestedMember, writer)
             }
@@ -389,12 +947,12 @@ function processInterfaceDeclaration(node: ts.InterfaceDeclaration, writer: Code
         })
 
         // Recursively handle deeper nested type literals by creating an object inside
-        const deepInlineMembers = typeLiteral.members.filter(mem => ts.isPropertySignature(mem) && mem.type && ts.isTypeLiteralNode(mem.type)) as ts.PropertySignature[]
+        const deepInlineMembers = typeLiteral.members.filter(mem => ts.isPropertySignature(mem) && mem.type && ts.isTypeLiteralNode(mem.type) && getScalaMemberName(mem.name)) as ts.PropertySignature[]
         if (deepInlineMembers.length > 0) {
           writer.newLine()
           writer.write(`object ${traitName} `).block(() => {
             deepInlineMembers.forEach(nestedPropSig => {
-              const nestedTraitName = capitalize(nestedPropSig.name.getText())
+              const nestedTraitName = capitalize(getScalaMemberName(nestedPropSig.name)!.name)
               const nestedTypeLiteral = nestedPropSig.type as ts.TypeLiteralNode
               writer.write('@js.native').newLine()
               writer.write(`trait ${nestedTraitName} extends js.Object `).block(() => {
@@ -404,6 +962,7 @@ function processInterfaceDeclaration(node: ts.InterfaceDeclaration, writer: Code
           })
         }
       })
+      if (merged) writeMergedCompanionMembers(merged, writer, namespace, externalModule)
     })
   }
 
@@ -411,73 +970,46 @@ function processInterfaceDeclaration(node: ts.InterfaceDeclaration, writer: Code
   writer.setIndentationLevel(currentIndentLevel)
 }
 
-function processClassMember(member: ts.ClassElement, writer: CodeBlockWriter, isAbstractClass?: boolean): void {
-  switch (member.kind) {
-    case ts.SyntaxKind.PropertyDeclaration:
-      processPropertyDeclaration(member as ts.PropertyDeclaration, writer, isAbstractClass)
-      break
-    case ts.SyntaxKind.MethodDeclaration:
-      processMethodDeclaration(member as ts.MethodDeclaration, writer, isAbstractClass)
-      break
-  }
-}
-
-function processInterfaceMember(member: ts.TypeElement, writer: CodeBlockWriter): void {
-  switch (member.kind) {
-    case ts.SyntaxKind.PropertySignature:
-      processPropertySignature(member as ts.PropertySignature, writer)
-      break
-    case ts.SyntaxKind.MethodSignature:
-      processMethodSignature(member as ts.MethodSignature, writer)
-      break
-    case ts.SyntaxKind.IndexSignature:
-      processIndexSignature(member as ts.IndexSignatureDeclaration, writer)
-      break
-  }
+// A variable whose type has construct signatures (e.g. "declare var Foo: FooConstructor")
+// describes a JS class, merged with the interface that declares its instance members
+interface ConstructorVariable {
+  name: string
+  members: ts.NodeArray<ts.TypeElement>
+  instanceInterface?: ts.InterfaceDeclaration
 }
 
-function processPropertyDeclaration(node: ts.PropertyDeclaration, writer: CodeBlockWriter, isAbstractClass?: boolean): void {
-  // Skip private or protected members
-  if (node.modifiers?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.ProtectedKeyword)) {
-    return
-  }
-
-  // Skip static members here; they will be handled in the companion object
-  if (node.modifiers?.some(m => m.kind === ts.SyntaxKind.StaticKeyword)) {
-    return
-  }
-
-  const name = node.name.getText()
-  const typeText = node.type ? convertTypeToScala(node.type) : 'js.Any'
-
-  const isReadonly = node.modifiers?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)
-  const keyword = isReadonly ? 'def' : 'var'
-  // Class properties don't need = js.native implementation for abstract classes
-  const implementation = isAbstractClass ? '' : ' = js.native'
-  writer.writeLine(`${keyword} ${name}: ${typeText}${implementation}`)
-}
+function collectConstructorVariables(statements: readonly ts.Statement[]): Map<string, ConstructorVariable> {
+  const interfaces = new Map<string, ts.InterfaceDeclaration>()
+  statements.forEach(statement => {
+    if (ts.isInterfaceDeclaration(statement)) interfaces.set(statement.name.text, statement)
+  })
 
-function processPropertySignature(node: ts.PropertySignature, writer: CodeBlockWriter): void {
-  const name = node.name.getText()
-  const typeText = node.type ? convertTypeToScala(node.type) : 'js.Any'
-  const isReadonly = node.modifiers?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)
-  const keyword = isReadonly ? 'def' : 'var'
-  writer.writeLine(`${keyword} ${name}: ${typeText} = js.native`)
+  const constructorVariables = new Map<string, ConstructorVariable>()
+  statements.forEach(statement => {
+    if (!ts.isVariableStatement(statement)) return
+    statement.declarationList.declarations.forEach(decl => {
+      if (!decl.type || !ts.isIdentifier(decl.name)) return
+      let members: ts.NodeArray<ts.TypeElement> | undefined
+      if (ts.isTypeLiteralNode(decl.type)) {
+        members = decl.type.members
+      } else if (ts.isTypeReferenceNode(decl.type) && !decl.type.typeArguments) {
+        members = interfaces.get(decl.type.typeName.getText())?.members
+      }
+      if (!members || !members.some(ts.isConstructSignatureDeclaration)) return
+      const name = decl.name.text
+      constructorVariables.set(name, { name, members, instanceInterface: interfaces.get(name) })
+    })
+  })
+  return constructorVariables
 }
 
-function processMethodDeclaration(node: ts.MethodDeclaration, writer: CodeBlockWriter, isAbstractClass?: boolean): void {
-  // Skip private or protected instance methods
-  if (node.modifiers?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.ProtectedKeyword)) {
-    return
-  }
-  const name = node.name.getText()
-  
-  // Handle reserved words
-  // Use shared SCALA_RESERVED_WORDS constant
-  const safeName = SCALA_RESERVED_WORDS.includes(name) ? `\`${name}\`` : name
+function processConstructorVariable(constructorVariable: ConstructorVariable, writer: CodeBlockWriter, namespace: string, externalModule?: ExternalModule, nested = false): void {
+  const className = constructorVariable.name
+  const instanceInterface = constructorVariable.instanceInterface
+  const safeClassName = SCALA_RESERVED_WORDS.includes(className) ? `\`${className}\`` : className
   
-  // Handle method type parameters
-  const typeParams = node.typeParameters?.map(tp => {
+  // Handle type parameters of the instance interface
+  const typeParams = instanceInterface?.typeParameters?.map(tp => {
     const paramName = tp.name.getText()
     const constraint = tp.constraint ? ` <: ${convertTypeToScala(tp.constraint)}` : ''
     return `${paramName}${constraint}`
@@ -485,66 +1017,582 @@ function processMethodDeclaration(node: ts.MethodDeclaration, writer: CodeBlockW
   
   const typeParamString = typeParams.length > 0 ? `[${typeParams.join(', ')}]` : ''
   
-  const params = node.parameters.map(p => {
-    const paramName = p.name.getText()
-    let paramType = p.type ? convertTypeToScala(p.type) : 'js.Any'
-    
-    // Handle rest parameters
-    if (p.dotDotDotToken) {
-      paramType = paramType.replace(/^js\.Array\[(.+)\]$/, '$1')
-      return `${paramName}: ${paramType}*`
-    }
-    
-    // Handle optional parameters
-    const optional = p.questionToken ? ' = ???' : ''
-    return `${paramName}: ${paramType}${optional}`
-  }).join(', ')
-  
-  const returnType = node.type ? convertTypeToScala(node.type) : 'Unit'
+  const heritageTypes = instanceInterface?.heritageClauses?.flatMap(h => h.types.map(t => convertHeritageType(t))) || []
+  const heritageString = heritageTypes.length > 0 ? heritageTypes.join(' with ') : 'js.Object'
   
-  // Abstract class methods don't have implementations
-  const implementation = isAbstractClass ? '' : ' = js.native'
-    const overridePrefix = ["toString", "clone"].includes(name) ? "override " : ""
-  writer.writeLine(`${overridePrefix}def ${safeName}${typeParamString}(${params}): ${returnType}${implementation}`)
-}
-
-function processMethodSignature(node: ts.MethodSignature, writer: CodeBlockWriter): void {
-  const name = node.name.getText()
+  const constructSignatures = constructorVariable.members.filter(ts.isConstructSignatureDeclaration)
+  const ctorParamLists = constructSignatures.flatMap(c => convertParameters(c.parameters))
+  const hasParamCtor = ctorParamLists.length > 0 && !ctorParamLists.includes('')
   
-  // Handle reserved words
-  // Use shared SCALA_RESERVED_WORDS constant
-  const safeName = SCALA_RESERVED_WORDS.includes(name) ? `\`${name}\`` : name
+  // Everything else on the constructor type is static, apart from the prototype
+  const staticMembers = constructorVariable.members.filter(member =>
+    !ts.isConstructSignatureDeclaration(member) && member.name?.getText() !== 'prototype'
+  )
   
-  // Handle method type parameters
-  const typeParams = node.typeParameters?.map(tp => {
-    const paramName = tp.name.getText()
-    const constraint = tp.constraint ? ` <: ${convertTypeToScala(tp.constraint)}` : ''
-    return `${paramName}${constraint}`
-  }) || []
+  const annotation = nativeLocationAnnotation(className, namespace, externalModule)
   
-  const typeParamString = typeParams.length > 0 ? `[${typeParams.join(', ')}]` : ''
+  writer.newLine()
+  const currentIndentLevel = writer.getIndentationLevel()
+  writer.setIndentationLevel(0)
+  if (instanceInterface) writeDocumentation(instanceInterface, writer)
+  writer.write('@js.native').newLine()
+  if (!nested) writer.write(annotation).newLine()
+  writer.write(`class ${safeClassName}${typeParamString}${hasParamCtor ? ' protected ()' : ''} extends ${heritageString} `).block(() => {
+    constructSignatures.forEach(signature => {
+      const paramLists = convertParameters(signature.parameters).filter(params => params)
+      if (paramLists.length > 0) writeDocumentation(signature, writer)
+      paramLists.forEach(params => writer.writeLine(`def this(${params}) = this()`))
+    })
+    instanceInterface?.members.forEach(member => processInterfaceMember(member, writer))
+  })
+  writer.newLine()
   
-  const params = node.parameters.map(p => {
-    const paramName = p.name.getText()
-    let paramType = p.type ? convertTypeToScala(p.type) : 'js.Any'
-    
-    // Handle reserved words for parameter names
+  if (staticMembers.length > 0) {
+    writer.write('@js.native').newLine()
+    if (!nested) writer.write(annotation).newLine()
+    writer.write(`object ${safeClassName} extends js.Object `).block(() => {
+      staticMembers.forEach(member => processInterfaceMember(member, writer))
+    })
+    writer.newLine()
+  }
+  
+  writer.setIndentationLevel(currentIndentLevel)
+}
+
+// Declarations sharing a name, which TypeScript merges into a single entity
+// (e.g. "class Foo" with "interface Foo", "function foo" with "namespace foo" or "enum Foo" with "namespace Foo")
+interface MergedDeclaration {
+  name: string
+  classes: ts.ClassDeclaration[]
+  interfaces: ts.InterfaceDeclaration[]
+  functions: ts.FunctionDeclaration[]
+  enums: ts.EnumDeclaration[]
+  namespaces: ts.ModuleDeclaration[]
+}
+
+function collectMergedDeclarations(statements: readonly ts.Statement[], constructorVariables: Map<string, ConstructorVariable>): Map<string, MergedDeclaration> {
+  const declarations = new Map<string, MergedDeclaration>()
+  statements.forEach(statement => {
+    const name = getMergeableName(statement)
+    if (!name || constructorVariables.has(name)) return
+    let merged = declarations.get(name)
+    if (!merged) {
+      merged = { name, classes: [], interfaces: [], functions: [], enums: [], namespaces: [] }
+      declarations.set(name, merged)
+    }
+    if (ts.isClassDeclaration(statement)) merged.classes.push(statement)
+    else if (ts.isInterfaceDeclaration(statement)) merged.interfaces.push(statement)
+    else if (ts.isFunctionDeclaration(statement)) merged.functions.push(statement)
+    else if (ts.isEnumDeclaration(statement)) merged.enums.push(statement)
+    else if (ts.isModuleDeclaration(statement)) merged.namespaces.push(statement)
+  })
+
+  // Single declarations and function overloads are emitted as usual
+  declarations.forEach((merged, name) => {
+    const types = merged.classes.length + merged.interfaces.length
+    const isMerged = types > 1 || merged.namespaces.length > 1 || (merged.namespaces.length > 0 && types + merged.functions.length + merged.enums.length > 0)
+    if (!isMerged) declarations.delete(name)
+  })
+  return declarations
+}
+
+function getMergeableName(statement: ts.Statement): string | undefined {
+  if (ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) || ts.isFunctionDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+    return statement.name?.text
+  }
+  if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name) && statement.body && ts.isModuleBlock(statement.body)) {
+    return statement.name.text
+  }
+  return undefined
+}
+
+function processMergedDeclaration(merged: MergedDeclaration, writer: CodeBlockWriter, namespace: string, externalModule?: ExternalModule, nested = false): void {
+  // Constants of the declarations nested in the companion object are written after it
+  const outerSiblingScope = activeContext.siblingScope
+  const siblingScope: SiblingObjectScope = { namespace, objects: [] }
+  if (!nested) activeContext.siblingScope = siblingScope
+  try {
+    writeMergedDeclaration(merged, writer, namespace, externalModule, nested)
+  } finally {
+    activeContext.siblingScope = outerSiblingScope
+  }
+  const currentIndentLevel = writer.getIndentationLevel()
+  siblingScope.objects.forEach(writeObject => {
+    writer.setIndentationLevel(0)
+    writeObject(writer)
+  })
+  writer.setIndentationLevel(currentIndentLevel)
+}
+
+function writeMergedDeclaration(merged: MergedDeclaration, writer: CodeBlockWriter, namespace: string, externalModule: ExternalModule | undefined, nested: boolean): void {
+  if (merged.classes.length > 0) {
+    processClassDeclaration(merged.classes[0], writer, namespace, externalModule, nested, merged)
+  } else if (merged.interfaces.length > 0) {
+    processInterfaceDeclaration(merged.interfaces[0], writer, namespace, externalModule, nested, merged)
+  } else if (merged.enums.length > 0) {
+    processEnumDeclaration(merged.enums[0], writer, namespace, externalModule, nested, merged)
+  } else {
+    // A function merged with a namespace is a callable object
+    writer.newLine()
+    const currentIndentLevel = writer.getIndentationLevel()
+    writer.setIndentationLevel(0)
+    writer.write('@js.native').newLine()
+    if (!nested) writer.write(nativeLocationAnnotation(merged.name, namespace, externalModule)).newLine()
+    writer.write(`object ${merged.name} extends js.Object `).block(() => {
+      writeMergedCompanionMembers(merged, writer, namespace, externalModule)
+    })
+    writer.newLine()
+    writer.setIndentationLevel(currentIndentLevel)
+  }
+}
+
+// Objects of constants (of const enums and literal union facades) cannot be nested in a native object,
+// so those of declarations nested in a merged companion object are written next to it
+interface SiblingObjectScope {
+  namespace: string
+  objects: ((writer: CodeBlockWriter) => void)[]
+}
+
+// Writes the object of constants of a type, next to the native object the type is nested in if any,
+// in which case the object is named after the path of the type (e.g. NS_E for NS.E)
+function writeConstantsObject(node: ts.Node, typeName: string, namespace: string, nested: boolean, writer: CodeBlockWriter, writeConstants: (writer: CodeBlockWriter, typeName: string) => void): void {
+  const scope = activeContext.siblingScope
+  if (!nested || !scope) {
+    writer.write(`object ${typeName} `).block(() => writeConstants(writer, typeName))
+    return
+  }
+  const relativeNamespace = scope.namespace && namespace.startsWith(`${scope.namespace}.`) ? namespace.slice(scope.namespace.length + 1) : namespace
+  const objectName = [...relativeNamespace.split('.'), typeName].join('_')
+  const qualifiedTypeName = `${relativeNamespace}.${typeName}`
+  reportDiagnostic(node, 'info', `Constants of ${qualifiedTypeName} are written to object ${objectName}, as objects cannot be nested in a native object`)
+  scope.objects.push(siblingWriter => {
+    siblingWriter.newLine()
+    siblingWriter.write(`object ${objectName} `).block(() => writeConstants(siblingWriter, qualifiedTypeName))
+  })
+}
+
+// Whether the companion object of a merged declaration holds values, and thus exists at runtime
+function hasMergedValues(merged?: MergedDeclaration): boolean {
+  return !!merged && (merged.functions.length > 0 || merged.namespaces.length > 0)
+}
+
+// Writes the members a merged declaration contributes to its companion object:
+// merged functions make it callable and merged namespaces add their declarations
+function writeMergedCompanionMembers(merged: MergedDeclaration, writer: CodeBlockWriter, namespace: string, externalModule?: ExternalModule): void {
+  merged.functions.forEach(func => {
+    const typeParams = func.typeParameters?.map(tp => {
+      const paramName = tp.name.getText()
+      const constraint = tp.constraint ? ` <: ${convertTypeToScala(tp.constraint)}` : ''
+      return `${paramName}${constraint}`
+    }) || []
+    const typeParamString = typeParams.length > 0 ? `[${typeParams.join(', ')}]` : ''
+    const returnType = convertReturnType(func.type, 'js.Dynamic')
+    writeDocumentation(func, writer)
+    convertParameters(func.parameters).forEach(params => {
+      writer.writeLine(`def apply${typeParamString}(${params}): ${returnType} = js.native`)
+    })
+  })
+
+  const statements = merged.namespaces.flatMap(ns => (ns.body as ts.ModuleBlock).statements)
+  if (statements.length > 0) {
+    const newNamespace = namespace ? `${namespace}.${merged.name}` : merged.name
+    writeNested(writer, nestedWriter => processModuleBody(statements, nestedWriter, newNamespace, merged.name, '', externalModule, true))
+  }
+}
+
+// Declarations are written at the top level of their package; this writes them
+// into the block currently open on the writer instead
+function writeNested(writer: CodeBlockWriter, write: (nestedWriter: CodeBlockWriter) => void): void {
+  const nestedWriter = createWriter()
+  write(nestedWriter)
+  nestedWriter.toString().trim().split('\n').forEach(line => {
+    if (line) writer.writeLine(line)
+    else writer.blankLineIfLastNot()
+  })
+}
+
+// Writes the documentation of a declaration, turning a @deprecated tag into the matching annotation
+function writeDocumentation(node: ts.Node, writer: CodeBlockWriter): void {
+  writeScaladoc(node, writer)
+  const deprecatedTag = ts.getJSDocDeprecatedTag(node)
+  if (deprecatedTag) {
+    const reason = convertJSDocComment(deprecatedTag.comment, true).replace(/\s+/g, ' ').trim()
+    writer.writeLine(`@deprecated(${JSON.stringify(reason)}, "")`)
+  }
+}
+
+// Writes the leading JSDoc of a declaration as Scaladoc
+function writeScaladoc(node: ts.Node, writer: CodeBlockWriter): void {
+  const jsDoc = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc).pop()
+  if (!jsDoc) return
+
+  const lines = convertJSDocComment(jsDoc.comment).split('\n')
+  jsDoc.tags?.forEach(tag => {
+    const tagName = tag.tagName.text
+    const comment = convertJSDocComment(tag.comment).replace(/^-\s*/, '')
+    if (ts.isJSDocParameterTag(tag)) {
+      lines.push(`@param ${tag.name.getText()} ${comment}`.trimEnd())
+    } else if (tagName === 'returns' || tagName === 'return') {
+      lines.push(`@return ${comment}`.trimEnd())
+    } else if (tagName === 'example') {
+      // Examples are code, which Scaladoc only keeps verbatim in a code block
+      lines.push('@example {{{', ...comment.split('\n'), '}}}')
+    } else if (['deprecated', 'see', 'throws', 'since', 'note', 'author', 'version', 'todo'].includes(tagName)) {
+      lines.push(`@${tagName} ${comment}`.trimEnd())
+    }
+  })
+
+  // Drop leading and trailing blank lines
+  while (lines.length > 0 && !lines[0].trim()) lines.shift()
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop()
+  if (lines.length === 0) return
+
+  if (lines.length === 1) {
+    writer.writeLine(`/** ${lines[0].replace(/\*\//g, '* /')} */`)
+    return
+  }
+  writer.writeLine('/**')
+  // A comment must not close the Scaladoc early
+  lines.forEach(line => writer.writeLine(line ? ` * ${line.replace(/\*\//g, '* /')}` : ' *'))
+  writer.writeLine(' */')
+}
+
+// Renders JSDoc text, turning {@link X} into Scaladoc [[X]] links, or into plain X where the text
+// is not Scaladoc (e.g. a @deprecated message)
+function convertJSDocComment(comment: string | ts.NodeArray<ts.JSDocComment> | undefined, plainLinks = false): string {
+  if (comment === undefined) return ''
+  if (typeof comment === 'string') return comment
+  return comment.map(part => {
+    if (ts.isJSDocLink(part) || ts.isJSDocLinkCode(part) || ts.isJSDocLinkPlain(part)) {
+      const target = part.name?.getText() ?? ''
+      const label = part.text.replace(/^\s*\|?\s*/, '')
+      if (plainLinks) return label || target
+      return target && label ? `[[${target} ${label}]]` : `[[${target || label}]]`
+    }
+    return part.text
+  }).join('')
+}
+
+function processClassMember(member: ts.ClassElement, writer: CodeBlockWriter, isAbstractClass?: boolean): void {
+  switch (member.kind) {
+    case ts.SyntaxKind.PropertyDeclaration:
+      processPropertyDeclaration(member as ts.PropertyDeclaration, writer, isAbstractClass)
+      break
+    case ts.SyntaxKind.MethodDeclaration:
+      processMethodDeclaration(member as ts.MethodDeclaration, writer, isAbstractClass)
+      break
+    case ts.SyntaxKind.GetAccessor:
+    case ts.SyntaxKind.SetAccessor:
+      // Skip private or protected accessors
+      if (ts.getModifiers(member as ts.AccessorDeclaration)?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.ProtectedKeyword)) return
+      processAccessorDeclaration(member as ts.AccessorDeclaration, writer, isAbstractClass)
+      break
+  }
+}
+
+function processInterfaceMember(member: ts.TypeElement, writer: CodeBlockWriter): void {
+  switch (member.kind) {
+    case ts.SyntaxKind.PropertySignature:
+      processPropertySignature(member as ts.PropertySignature, writer)
+      break
+    case ts.SyntaxKind.MethodSignature:
+      processMethodSignature(member as ts.MethodSignature, writer)
+      break
+    case ts.SyntaxKind.IndexSignature:
+      processIndexSignature(member as ts.IndexSignatureDeclaration, writer)
+      break
+    case ts.SyntaxKind.CallSignature:
+      processCallSignature(member as ts.CallSignatureDeclaration, writer)
+      break
+    case ts.SyntaxKind.ConstructSignature:
+      processConstructSignature(member as ts.ConstructSignatureDeclaration)
+      break
+    case ts.SyntaxKind.GetAccessor:
+    case ts.SyntaxKind.SetAccessor:
+      processAccessorDeclaration(member as ts.AccessorDeclaration, writer)
+      break
+  }
+}
+
+function processPropertyDeclaration(node: ts.PropertyDeclaration, writer: CodeBlockWriter, isAbstractClass?: boolean): void {
+  // Skip private or protected members
+  if (node.modifiers?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.ProtectedKeyword)) {
+    return
+  }
+
+  // Skip static members here; they will be handled in the companion object
+  if (node.modifiers?.some(m => m.kind === ts.SyntaxKind.StaticKeyword)) {
+    return
+  }
+
+  const name = getScalaMemberName(node.name)
+  if (!name) return
+  const typeText = convertOptionalType(node.type ? convertTypeToScala(node.type) : 'js.Any', node.questionToken)
+
+  const isReadonly = node.modifiers?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)
+  const keyword = isReadonly ? readonlyKeyword('def') : 'var'
+  // Class properties don't need = js.native implementation for abstract classes
+  const implementation = isAbstractClass ? '' : ' = js.native'
+  writeDocumentation(node, writer)
+  writeJSName(name, writer)
+  writer.writeLine(`${keyword} ${name.name}: ${typeText}${implementation}`)
+}
+
+function processPropertySignature(node: ts.PropertySignature, writer: CodeBlockWriter, isOptional = !!node.questionToken, isReadonly = node.modifiers?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)): void {
+  const name = getScalaMemberName(node.name)
+  if (!name) return
+  const typeText = convertOptionalType(node.type ? convertTypeToScala(node.type) : 'js.Any', isOptional)
+  const keyword = isReadonly ? readonlyKeyword('def') : 'var'
+  writeDocumentation(node, writer)
+  writeJSName(name, writer)
+  writer.writeLine(`${keyword} ${name.name}: ${typeText} = js.native`)
+}
+
+function processMethodDeclaration(node: ts.MethodDeclaration, writer: CodeBlockWriter, isAbstractClass?: boolean): void {
+  // Skip private or protected instance methods
+  if (node.modifiers?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.ProtectedKeyword)) {
+    return
+  }
+  const memberName = getScalaMemberName(node.name)
+  if (!memberName) return
+  const safeName = memberName.name
+  
+  // Optional methods may be absent, so they become optional function-typed fields
+  if (node.questionToken) {
+    const functionType = convertOptionalMethodType(node)
+    if (!functionType) return
+    const implementation = isAbstractClass ? '' : ' = js.native'
+    writeDocumentation(node, writer)
+    writeJSName(memberName, writer)
+    writer.writeLine(`var ${safeName}: ${convertOptionalType(functionType, node.questionToken)}${implementation}`)
+    return
+  }
+  writeDocumentation(node, writer)
+  
+  // Handle method type parameters
+  const typeParams = node.typeParameters?.map(tp => {
+    const paramName = tp.name.getText()
+    const constraint = tp.constraint ? ` <: ${convertTypeToScala(tp.constraint)}` : ''
+    return `${paramName}${constraint}`
+  }) || []
+  
+  const typeParamString = typeParams.length > 0 ? `[${typeParams.join(', ')}]` : ''
+  
+  const returnType = convertReturnType(node.type, 'Unit')
+  
+  // Abstract class methods don't have implementations
+  const implementation = isAbstractClass ? '' : ' = js.native'
+    const overridePrefix = ["toString", "clone"].includes(safeName) ? "override " : ""
+  convertParameters(node.parameters).forEach(params => {
+    writeJSName(memberName, writer)
+    writer.writeLine(`${overridePrefix}def ${safeName}${typeParamString}(${params}): ${returnType}${implementation}`)
+  })
+}
+
+function processMethodSignature(node: ts.MethodSignature, writer: CodeBlockWriter, isOptional = !!node.questionToken): void {
+  const memberName = getScalaMemberName(node.name)
+  if (!memberName) return
+  const safeName = memberName.name
+  
+  // Optional methods may be absent, so they become optional function-typed fields
+  if (isOptional) {
+    const functionType = convertOptionalMethodType(node)
+    if (!functionType) return
+    writeDocumentation(node, writer)
+    writeJSName(memberName, writer)
+    writer.writeLine(`var ${safeName}: ${convertOptionalType(functionType, isOptional)} = js.native`)
+    return
+  }
+  writeDocumentation(node, writer)
+  
+  // Handle method type parameters
+  const typeParams = node.typeParameters?.map(tp => {
+    const paramName = tp.name.getText()
+    const constraint = tp.constraint ? ` <: ${convertTypeToScala(tp.constraint)}` : ''
+    return `${paramName}${constraint}`
+  }) || []
+  
+  const typeParamString = typeParams.length > 0 ? `[${typeParams.join(', ')}]` : ''
+  
+  const returnType = convertReturnType(node.type, 'js.Dynamic')
+    const overridePrefix = ["toString", "clone"].includes(safeName) ? "override " : ""
+  convertParameters(node.parameters).forEach(params => {
+    writeJSName(memberName, writer)
+    writer.writeLine(`${overridePrefix}def ${safeName}${typeParamString}(${params}): ${returnType} = js.native`)
+  })
+}
+
+// Overloads of an optional method share a single field, typed as the union of their function types.
+// Returns undefined for all but the first overload, which emits the field
+function convertOptionalMethodType(node: ts.MethodDeclaration | ts.MethodSignature): string | undefined {
+  const name = node.name.getText()
+  const isStatic = (method: ts.MethodDeclaration | ts.MethodSignature) => ts.getModifiers(method)?.some(m => m.kind === ts.SyntaxKind.StaticKeyword) ?? false
+  const siblings = (node.parent as ts.ClassLikeDeclaration | ts.InterfaceDeclaration | ts.TypeLiteralNode).members as ts.NodeArray<ts.Node>
+  const overloads = siblings.filter((member): member is ts.MethodDeclaration | ts.MethodSignature =>
+    (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) && member.kind === node.kind && member.name.getText() === name && isStatic(member) === isStatic(node)
+  )
+  if (overloads.length > 0 && overloads[0] !== node) return undefined
+  if (overloads.length > 1) {
+    reportDiagnostic(node, 'info', `Overloads of optional method ${name} merged into one field typed as the union of their function types`)
+  }
+  return [...new Set(overloads.map(convertFunctionType))].join(' | ') || convertFunctionType(node)
+}
+
+function processAccessorDeclaration(node: ts.AccessorDeclaration, writer: CodeBlockWriter, isAbstractClass?: boolean): void {
+  const name = node.name.getText()
+  const memberName = getScalaMemberName(node.name)
+  if (!memberName) return
+  const safeName = memberName.name
+  const isStatic = ts.getModifiers(node)?.some(m => m.kind === ts.SyntaxKind.StaticKeyword) ?? false
+  
+  // Find the matching accessor of the pair, declared alongside this one
+  const siblings = (node.parent as ts.ClassLikeDeclaration | ts.InterfaceDeclaration | ts.TypeLiteralNode).members as ts.NodeArray<ts.Node>
+  const counterpart = siblings.find(member =>
+    ts.isAccessor(member) && member.kind !== node.kind && member.name.getText() === name &&
+    (ts.getModifiers(member)?.some(m => m.kind === ts.SyntaxKind.StaticKeyword) ?? false) === isStatic
+  ) as ts.AccessorDeclaration | undefined
+  const getter = ts.isGetAccessor(node) ? node : counterpart as ts.GetAccessorDeclaration | undefined
+  const setter = ts.isSetAccessor(node) ? node : counterpart as ts.SetAccessorDeclaration | undefined
+  
+  // A getter/setter pair is emitted once, from the getter
+  if (ts.isSetAccessor(node) && getter) return
+  writeDocumentation(getter && ts.getJSDocCommentsAndTags(getter).length > 0 ? getter : setter ?? node, writer)
+  
+  const setterParameter = setter?.parameters[0]
+  const typeNode = getter?.type ?? setterParameter?.type
+  const typeText = typeNode ? convertTypeToScala(typeNode) : 'js.Any'
+  
+  // Abstract class accessors don't have implementations
+  const implementation = isAbstractClass ? '' : ' = js.native'
+  if (getter) {
+    const keyword = setter ? 'var' : 'def'
+    writeJSName(memberName, writer)
+    writer.writeLine(`${keyword} ${safeName}: ${typeText}${implementation}`)
+  } else {
+    const paramName = setterParameter && ts.isIdentifier(setterParameter.name) ? setterParameter.name.text : 'v'
     const safeParamName = SCALA_RESERVED_WORDS.includes(paramName) ? `\`${paramName}\`` : paramName
-    
+    // The setter name needs no backticks, but numeric names still need a leading identifier character, e.g. _0_=
+    const setterName = memberName.jsName ? safeName : /^[a-zA-Z_$][\w$]*$/.test(name) ? name : `_${name.replace(/\W/g, '_')}`
+    writer.writeLine(`@JSName(${memberName.jsName ?? JSON.stringify(name)})`)
+    writer.writeLine(`def ${setterName}_=(${safeParamName}: ${typeText}): Unit${implementation}`)
+  }
+}
+
+// Scala name of a member, along with the JavaScript name to give it with @JSName when the member is named by
+// a string that is no identifier (e.g. "some-key") or by a well-known symbol (e.g. [Symbol.iterator])
+interface ScalaMemberName {
+  name: string
+  jsName?: string
+}
+
+// Undefined for private names, and for computed names other than well-known symbols, which are skipped
+function getScalaMemberName(name: ts.PropertyName): ScalaMemberName | undefined {
+  if (ts.isPrivateIdentifier(name)) return undefined
+  if (ts.isIdentifier(name)) {
+    return { name: SCALA_RESERVED_WORDS.includes(name.text) ? `\`${name.text}\`` : name.text }
+  }
+  const literal = ts.isComputedPropertyName(name) ? name.expression : name
+  if (ts.isPropertyAccessExpression(literal) && ts.isIdentifier(literal.expression) && literal.expression.text === 'Symbol') {
+    return { name: literal.name.text, jsName: `js.Symbol.${literal.name.text}` }
+  }
+  if (ts.isNumericLiteral(literal)) {
+    // Numeric keys are valid Scala.js names when wrapped in backticks
+    return { name: `\`${literal.text}\`` }
+  }
+  if (!ts.isStringLiteral(literal) && !ts.isNoSubstitutionTemplateLiteral(literal)) {
+    reportDiagnostic(name, 'warning', `Member with computed name ${name.getText()} was skipped`)
+    return undefined
+  }
+  const text = literal.text
+  if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(text)) {
+    return { name: SCALA_RESERVED_WORDS.includes(text) ? `\`${text}\`` : text }
+  }
+  // Other strings are camel-cased into an identifier, e.g. "some-key" into someKey, unless another member
+  // has that name already; the string then becomes the name in backticks, like `high-contrast` for enums
+  const words = text.split(/[^a-zA-Z0-9_]+/).filter(word => word)
+  const camelCased = words.map((word, i) => i === 0 ? word : capitalize(word)).join('')
+  const identifier = /^[a-zA-Z_]/.test(camelCased) ? camelCased : `_${camelCased}`
+  if (hasSiblingMemberNamed(name, identifier) && !/[`\n]/.test(text)) return { name: `\`${text}\`` }
+  return { name: identifier, jsName: JSON.stringify(text) }
+}
+
+function hasSiblingMemberNamed(name: ts.PropertyName, identifier: string): boolean {
+  const parent = name.parent.parent
+  const siblings: readonly ts.Node[] = ts.isObjectLiteralExpression(parent) ? parent.properties
+    : ts.isClassLike(parent) || ts.isInterfaceDeclaration(parent) || ts.isTypeLiteralNode(parent) ? parent.members
+    : []
+  return siblings.some(sibling => {
+    const siblingName = ts.getNameOfDeclaration(sibling as ts.Declaration)
+    return siblingName !== name && !!siblingName && (ts.isIdentifier(siblingName) || ts.isStringLiteral(siblingName)) && siblingName.text === identifier
+  })
+}
+
+function writeJSName(memberName: ScalaMemberName, writer: CodeBlockWriter): void {
+  if (memberName.jsName) writer.writeLine(`@JSName(${memberName.jsName})`)
+}
+
+function processCallSignature(node: ts.CallSignatureDeclaration, writer: CodeBlockWriter): void {
+  // Handle call signature type parameters
+  const typeParams = node.typeParameters?.map(tp => {
+    const paramName = tp.name.getText()
+    const constraint = tp.constraint ? ` <: ${convertTypeToScala(tp.constraint)}` : ''
+    return `${paramName}${constraint}`
+  }) || []
+  
+  const typeParamString = typeParams.length > 0 ? `[${typeParams.join(', ')}]` : ''
+  
+  // Invoking a JS object that is itself a function maps to apply
+  const returnType = convertReturnType(node.type, 'js.Dynamic')
+  writeDocumentation(node, writer)
+  convertParameters(node.parameters).forEach(params => {
+    writer.writeLine(`def apply${typeParamString}(${params}): ${returnType} = js.native`)
+  })
+}
+
+// Construct signatures become the constructors of the class of a constructor variable (see collectConstructorVariables),
+// while a trait cannot declare them
+function processConstructSignature(node: ts.ConstructSignatureDeclaration): void {
+  const members = (node.parent as ts.InterfaceDeclaration).members
+  const scope = node.parent.parent
+  const constructorVariables = ts.isSourceFile(scope) || ts.isModuleBlock(scope) ? [...collectConstructorVariables(scope.statements).values()] : []
+  if (constructorVariables.some(constructorVariable => constructorVariable.members === members)) return
+  reportDiagnostic(node, 'warning', 'Construct signature was skipped, as only the type of a constructor variable (declare var Foo: FooConstructor) becomes a class')
+}
+
+// Renders a parameter list, returning one entry per overload that has to be emitted
+function convertParameters(parameters: readonly ts.ParameterDeclaration[]): string[] {
+  // A leading "this" parameter only types the receiver and is not passed by callers
+  const declaredParameters = parameters.filter(p => !(ts.isIdentifier(p.name) && p.name.text === 'this'))
+
+  const params = declaredParameters.map((p, index) => {
+    // Destructured parameters have no name of their own
+    const paramName = ts.isIdentifier(p.name) ? p.name.text : `arg${index}`
+    const safeParamName = SCALA_RESERVED_WORDS.includes(paramName) ? `\`${paramName}\`` : paramName
+    let paramType = p.type ? convertTypeToScala(p.type) : 'js.Any'
+
     // Handle rest parameters
     if (p.dotDotDotToken) {
       paramType = paramType.replace(/^js\.Array\[(.+)\]$/, '$1')
       return `${safeParamName}: ${paramType}*`
     }
-    
-    // Handle optional parameters
-    const optional = p.questionToken ? ' = ???' : ''
-    return `${safeParamName}: ${paramType}${optional}`
-  }).join(', ')
-  
-  const returnType = node.type ? convertTypeToScala(node.type) : 'js.Dynamic'
-    const overridePrefix = ["toString", "clone"].includes(name) ? "override " : ""
-  writer.writeLine(`${overridePrefix}def ${safeName}${typeParamString}(${params}): ${returnType} = js.native`)
+    return `${safeParamName}: ${paramType}`
+  })
+
+  // Handle optional parameters with js.native defaults, unless the list also has a rest parameter:
+  // Scala forbids default arguments next to repeated parameters, so those get one overload per arity instead
+  const firstOptional = declaredParameters.findIndex(p => p.questionToken)
+  if (firstOptional < 0) {
+    return [params.join(', ')]
+  }
+  if (!declaredParameters.some(p => p.dotDotDotToken)) {
+    return [params.map((param, index) => declaredParameters[index].questionToken ? `${param} = js.native` : param).join(', ')]
+  }
+  const overloads: string[] = []
+  for (let arity = firstOptional; arity < params.length - 1; arity++) {
+    overloads.push(params.slice(0, arity).join(', '))
+  }
+  overloads.push(params.join(', '))
+  return overloads
 }
 
 function processIndexSignature(node: ts.IndexSignatureDeclaration, writer: CodeBlockWriter): void {
@@ -565,76 +1613,530 @@ function processIndexSignature(node: ts.IndexSignatureDeclaration, writer: CodeB
   }
 }
 
-function processEnumDeclaration(node: ts.EnumDeclaration, writer: CodeBlockWriter, namespace: string): void {
-  const enumName = node.name.getText()
-  // const isExport = hasExportModifier(node) // Unused for now
-  
-  // Generate sealed trait
-  writer.newLine()
+function processEnumDeclaration(node: ts.EnumDeclaration, writer: CodeBlockWriter, namespace: string, externalModule?: ExternalModule, nested = false, merged?: MergedDeclaration): void {
+  const enumName = node.name.getText()
+  const isConst = node.modifiers?.some(m => m.kind === ts.SyntaxKind.ConstKeyword)
+  const values = computeEnumValues(node)
+  
+  // Generate sealed trait; enum values are strings or numbers rather than objects
+  writer.newLine()
+  const currentIndentLevel = writer.getIndentationLevel()
+  writer.setIndentationLevel(0)
+  writeDocumentation(node, writer)
+  writer.write('@js.native').newLine()
+  writer.write(`sealed trait ${enumName} extends js.Any`).newLine()
+  writer.newLine()
+  
+  if (isConst) {
+    // Const enums have no runtime object, so their values are inlined as constants
+    writeConstantsObject(node, enumName, namespace, nested, writer, (writer, typeName) => {
+      node.members.forEach(member => {
+        const memberName = getEnumMemberName(member)
+        const value = values.get(member)
+        writeDocumentation(member, writer)
+        if (value === undefined) {
+          // Without a value to inline, the member stays reachable but throws when used
+          const fallback = convertLossyType(member.initializer ?? member, 'warning', `Value of const enum member ${memberName} could not be computed`, '???')
+          writer.writeLine(`def ${memberName}: ${typeName} = ${fallback}`)
+        } else {
+          writer.writeLine(`val ${memberName}: ${typeName} = ${formatEnumValue(value, true)}.asInstanceOf[${typeName}]`)
+        }
+      })
+      // A namespace merged with a const enum can only declare types, which the object holds as well
+      if (merged) writeMergedCompanionMembers(merged, writer, namespace, externalModule)
+    })
+    writer.newLine()
+    writer.setIndentationLevel(currentIndentLevel)
+    return
+  }
+  
+  writer.write('@js.native').newLine()
+  if (nested) {
+    // Read from the enclosing object
+  } else if (externalModule) {
+    writer.write(jsImportAnnotation(enumName, namespace, externalModule)).newLine()
+  } else if (namespace) {
+    writer.write(`@JSGlobal("${namespace}.${enumName}")`).newLine()
+  } else {
+    writer.write(`@JSGlobal("${enumName}")`).newLine()
+  }
+  writer.write(`object ${enumName} extends js.Object `).block(() => {
+    // Generate values for each enum member, noting the value they hold
+    node.members.forEach(member => {
+      const value = values.get(member)
+      const valueComment = value === undefined ? '' : ` // ${formatEnumValue(value, false)}`
+      writeDocumentation(member, writer)
+      writer.writeLine(`val ${getEnumMemberName(member)}: ${enumName} = js.native${valueComment}`)
+    })
+    
+    // Only numeric members get a reverse mapping from value to name
+    if ([...values.values()].some(value => typeof value === 'number')) {
+      writer.writeLine('@JSBracketAccess')
+      writer.writeLine(`def apply(value: ${enumName}): String = js.native`)
+    }
+    if (merged) writeMergedCompanionMembers(merged, writer, namespace, externalModule)
+  })
+  writer.newLine()
+  writer.setIndentationLevel(currentIndentLevel)
+}
+
+function getEnumMemberName(member: ts.EnumMember): string {
+  const name = ts.isStringLiteral(member.name) ? member.name.text : member.name.getText()
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) && !SCALA_RESERVED_WORDS.includes(name) ? name : `\`${name}\``
+}
+
+// Computes enum member values the way the TypeScript compiler does for constant enum expressions:
+// literals, references to earlier members and arithmetic on them, with auto-incrementing numbers
+function computeEnumValues(node: ts.EnumDeclaration): Map<ts.EnumMember, string | number> {
+  const values = new Map<ts.EnumMember, string | number>()
+  const valuesByName = new Map<string, string | number>()
+  
+  const evaluate = (expression: ts.Expression): string | number | undefined => {
+    if (ts.isNumericLiteral(expression)) return Number(expression.text)
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) return expression.text
+    if (ts.isParenthesizedExpression(expression)) return evaluate(expression.expression)
+    if (ts.isIdentifier(expression)) {
+      if (valuesByName.has(expression.text)) return valuesByName.get(expression.text)
+      return expression.text === 'NaN' ? NaN : expression.text === 'Infinity' ? Infinity : undefined
+    }
+    if (ts.isPropertyAccessExpression(expression) && expression.expression.getText() === node.name.text) {
+      return valuesByName.get(expression.name.text)
+    }
+    if (ts.isPrefixUnaryExpression(expression)) {
+      const operand = evaluate(expression.operand)
+      if (typeof operand !== 'number') return undefined
+      switch (expression.operator) {
+        case ts.SyntaxKind.MinusToken: return -operand
+        case ts.SyntaxKind.PlusToken: return operand
+        case ts.SyntaxKind.TildeToken: return ~operand
+      }
+      return undefined
+    }
+    if (ts.isBinaryExpression(expression)) {
+      const left = evaluate(expression.left)
+      const right = evaluate(expression.right)
+      if (left === undefined || right === undefined) return undefined
+      if (expression.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+        return typeof left === 'string' || typeof right === 'string' ? `${left}${right}` : left + right
+      }
+      if (typeof left !== 'number' || typeof right !== 'number') return undefined
+      switch (expression.operatorToken.kind) {
+        case ts.SyntaxKind.MinusToken: return left - right
+        case ts.SyntaxKind.AsteriskToken: return left * right
+        case ts.SyntaxKind.SlashToken: return left / right
+        case ts.SyntaxKind.PercentToken: return left % right
+        case ts.SyntaxKind.AsteriskAsteriskToken: return left ** right
+        case ts.SyntaxKind.LessThanLessThanToken: return left << right
+        case ts.SyntaxKind.GreaterThanGreaterThanToken: return left >> right
+        case ts.SyntaxKind.GreaterThanGreaterThanGreaterThanToken: return left >>> right
+        case ts.SyntaxKind.AmpersandToken: return left & right
+        case ts.SyntaxKind.BarToken: return left | right
+        case ts.SyntaxKind.CaretToken: return left ^ right
+      }
+    }
+    return undefined
+  }
+  
+  let previous: string | number | undefined = -1
+  node.members.forEach(member => {
+    let value: string | number | undefined
+    if (member.initializer) {
+      value = evaluate(member.initializer)
+    } else if (typeof previous === 'number') {
+      value = previous + 1
+    }
+    if (value !== undefined) {
+      values.set(member, value)
+      valuesByName.set(ts.isStringLiteral(member.name) ? member.name.text : member.name.getText(), value)
+    }
+    previous = value
+  })
+  return values
+}
+
+function formatEnumValue(value: string | number, asExpression: boolean): string {
+  if (typeof value === 'string') return JSON.stringify(value)
+  // NaN and the infinities have no literal in Scala
+  if (asExpression && !Number.isFinite(value)) {
+    return Number.isNaN(value) ? 'Double.NaN' : value > 0 ? 'Double.PositiveInfinity' : 'Double.NegativeInfinity'
+  }
+  const text = Number.isInteger(value) && Math.abs(value) > 2147483647 ? `${value}.0` : String(value)
+  return asExpression && value < 0 ? `(${text})` : text
+}
+
+function processTypeAliasDeclaration(node: ts.TypeAliasDeclaration, writer: CodeBlockWriter, namespace: string, nested = false): void {
+  // All type aliases are deferred to either module objects (for namespaces) 
+  // or global scope objects (for top level), except for literal union facades and synthesized traits
+  const synthesizedMembers = getSynthesizedTraitMembers(node)
+  if (synthesizedMembers) {
+    writeSynthesizedTrait(node.name.text, synthesizedMembers, writer, node)
+    return
+  }
+  if (!isLiteralUnionFacade(node)) return
+  
+  const typeName = node.name.getText()
+  const literals = (node.type as ts.UnionTypeNode).types as ts.NodeArray<ts.LiteralTypeNode>
+  
+  writer.newLine()
+  const currentIndentLevel = writer.getIndentationLevel()
+  writer.setIndentationLevel(0)
+  writer.write('@js.native').newLine()
+  writer.write(`sealed trait ${typeName} extends js.Any`).newLine()
+  writer.newLine()
+  writeConstantsObject(node, typeName, namespace, nested, writer, (writer, qualifiedTypeName) => {
+    const seen = new Set<string>()
+    literals.forEach(literalType => {
+      const literal = literalType.literal
+      const value = ts.isStringLiteral(literal) ? JSON.stringify(literal.text) : ts.isPrefixUnaryExpression(literal) ? `(${literal.getText()})` : literal.getText()
+      const constantName = ts.isStringLiteral(literal) ? literal.text : literal.getText()
+      if (seen.has(constantName)) return
+      seen.add(constantName)
+      const safeConstantName = /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(constantName) && !SCALA_RESERVED_WORDS.includes(constantName)
+        ? constantName
+        : `\`${constantName}\``
+      writer.writeLine(`val ${safeConstantName}: ${qualifiedTypeName} = ${value}.asInstanceOf[${qualifiedTypeName}]`)
+    })
+  })
+  writer.newLine()
+  writer.setIndentationLevel(currentIndentLevel)
+}
+
+// Whether a type alias is emitted as a sealed type with constants rather than widened to String or a number type
+function isLiteralUnionFacade(node: ts.TypeAliasDeclaration): boolean {
+  if (!activeContext.options.literalUnionFacades || node.typeParameters || !ts.isUnionTypeNode(node.type)) return false
+  const literals = node.type.types
+  const isStringLiteral = (t: ts.TypeNode) => ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal)
+  const isNumericLiteral = (t: ts.TypeNode) => ts.isLiteralTypeNode(t) &&
+    (ts.isNumericLiteral(t.literal) || (ts.isPrefixUnaryExpression(t.literal) && ts.isNumericLiteral(t.literal.operand)))
+  return literals.every(isStringLiteral) || literals.every(isNumericLiteral)
+}
+
+// A member of a trait synthesized from a utility or mapped type, with the modifiers that type gives it
+interface SynthesizedMember {
+  member: ts.PropertySignature | ts.MethodSignature
+  isOptional: boolean
+  isReadonly: boolean
+}
+
+function writeSynthesizedTrait(name: string, members: SynthesizedMember[], writer: CodeBlockWriter, documentedNode?: ts.Node): void {
+  writer.newLine()
+  const currentIndentLevel = writer.getIndentationLevel()
+  writer.setIndentationLevel(0)
+  if (documentedNode) writeDocumentation(documentedNode, writer)
+  writer.write('@js.native').newLine()
+  writer.write(`trait ${name} extends js.Object `).block(() => {
+    members.forEach(({ member, isOptional, isReadonly }) => {
+      if (ts.isPropertySignature(member)) {
+        processPropertySignature(member, writer, isOptional, isReadonly)
+      } else {
+        processMethodSignature(member, writer, isOptional)
+      }
+    })
+  })
+  writer.newLine()
+  writer.setIndentationLevel(currentIndentLevel)
+}
+
+// Traits synthesized for the utility and mapped types used inline (e.g. a Partial<User> parameter),
+// by the text of the type. They are written at the end of the file, in the packages of the namespaces
+// their members are declared in, so that the types those members refer to are in scope
+interface InlineSynthesizedTrait {
+  name: string
+  packages: string[]
+  members: SynthesizedMember[]
+  // Call signatures of function types that have no js.FunctionN equivalent
+  signatures?: string[]
+  typeParameters?: string[]
+}
+
+// Name of the trait synthesized for an inline utility or mapped type, after the type (e.g. PartialUser),
+// qualified by its packages where it is used outside of them
+function getInlineTraitName(node: ts.Node, members: SynthesizedMember[], baseName = describeMappedType(node as ts.TypeNode), signatures?: string[], typeParameters?: string[]): string {
+  // Function traits go next to their function type, the others next to the declaration they were expanded from
+  const declaration = members[0]?.member
+  const scope = getEnclosingPackageScope(declaration && declaration.getSourceFile() === node.getSourceFile() ? declaration : node)
+  const key = `${scope.packages.join('.')}:${node.getText().replace(/\s+/g, '')}`
+  let trait = activeContext.inlineTraits.get(key)
+  if (!trait) {
+    const samePackages = (other: InlineSynthesizedTrait) => other.packages.join('.') === scope.packages.join('.')
+    const takenNames = new Set([...activeContext.inlineTraits.values()].filter(samePackages).map(t => t.name))
+    scope.statements.forEach(statement => {
+      const name = ts.getNameOfDeclaration(statement as ts.DeclarationStatement)
+      if (name && ts.isIdentifier(name)) takenNames.add(name.text)
+    })
+    let name = baseName
+    for (let i = 2; takenNames.has(name); i++) name = `${baseName}${i}`
+    trait = { name, packages: scope.packages, members, signatures, typeParameters }
+    activeContext.inlineTraits.set(key, trait)
+  }
+
+  // Enclosing packages are in scope, others are named from the innermost package both are in
+  const usePackages = getEnclosingPackageScope(node).packages
+  let common = 0
+  while (common < trait.packages.length && trait.packages[common] === usePackages[common]) common++
+  return [...trait.packages.slice(common), trait.name].join('.')
+}
+
+// Packages of the namespaces around a node, up to the first namespace written as an object (which cannot
+// be reopened to add traits), along with the statements declared in the innermost of them
+function getEnclosingPackageScope(node: ts.Node): { packages: string[], statements: readonly ts.Statement[] } {
+  const modules: ts.ModuleDeclaration[] = []
+  for (let parent = node.parent; parent && !ts.isSourceFile(parent); parent = parent.parent) {
+    if (ts.isModuleDeclaration(parent)) modules.unshift(parent)
+  }
+  const packages: string[] = []
+  let statements = node.getSourceFile().statements
+  for (const module of modules) {
+    if (ts.isStringLiteral(module.name)) {
+      packages.push(externalModulePackageName(module.name.text))
+    } else if (isEmittedAsObject(module)) {
+      break
+    } else {
+      packages.push(SCALA_RESERVED_WORDS.includes(module.name.text) ? `\`${module.name.text}\`` : module.name.text)
+    }
+    if (module.body && ts.isModuleBlock(module.body)) statements = module.body.statements
+  }
+  return { packages, statements }
+}
+
+function describeMappedType(typeNode: ts.TypeNode): string {
+  if (ts.isParenthesizedTypeNode(typeNode)) return describeMappedType(typeNode.type)
+  if (ts.isTypeReferenceNode(typeNode)) {
+    return [...typeNode.typeName.getText().split('.').map(capitalize), ...(typeNode.typeArguments ?? []).map(describeMappedType)].join('')
+  }
+  if (ts.isMappedTypeNode(typeNode) && typeNode.typeParameter.constraint && ts.isTypeOperatorNode(typeNode.typeParameter.constraint)) {
+    return `Mapped${describeMappedType(typeNode.typeParameter.constraint.type)}`
+  }
+  if (ts.isUnionTypeNode(typeNode)) return typeNode.types.map(describeMappedType).join('')
+  if (ts.isLiteralTypeNode(typeNode) && ts.isStringLiteral(typeNode.literal)) {
+    return typeNode.literal.text.split(/[^a-zA-Z0-9_]+/).map(capitalize).join('')
+  }
+  return 'Object'
+}
+
+function writeInlineTraits(writer: CodeBlockWriter): void {
+  // Traits may use utility types in turn, adding traits while they are written
+  const written = new Set<InlineSynthesizedTrait>()
+  for (let pending = [...activeContext.inlineTraits.values()]; pending.length > 0; pending = [...activeContext.inlineTraits.values()].filter(t => !written.has(t))) {
+    const packagePaths = [...new Set(pending.map(trait => trait.packages.join('.')))]
+    packagePaths.forEach(packagePath => {
+      const traits = pending.filter(trait => trait.packages.join('.') === packagePath)
+      writeInPackages(traits[0].packages, writer, () => traits.forEach(trait => {
+        written.add(trait)
+        if (trait.signatures) {
+          writeFunctionTrait(trait.typeParameters?.length ? `${trait.name}[${trait.typeParameters.join(', ')}]` : trait.name, trait.signatures, writer)
+        } else {
+          writeSynthesizedTrait(trait.name, trait.members, writer)
+        }
+      }))
+    })
+  }
+}
+
+// Reopens the packages of a namespace, like processModuleDeclaration writes them, to add declarations to it
+function writeInPackages(packages: string[], writer: CodeBlockWriter, write: () => void): void {
+  if (packages.length === 0) {
+    write()
+    return
+  }
+  writer.blankLineIfLastNot()
   const currentIndentLevel = writer.getIndentationLevel()
   writer.setIndentationLevel(0)
-  writer.write('@js.native').newLine()
-  writer.write(`sealed trait ${enumName} extends js.Object `).block(() => {
-    // Empty trait body
+  writer.write(`package ${packages[0]} `).block(() => {
+    writeInPackages(packages.slice(1), writer, write)
+    writer.setIndentationLevel(0)
+    writer.newLine()
   })
   writer.newLine()
+  writer.setIndentationLevel(currentIndentLevel)
+}
+
+function writeFunctionTrait(name: string, signatures: string[], writer: CodeBlockWriter): void {
   writer.newLine()
+  const currentIndentLevel = writer.getIndentationLevel()
+  writer.setIndentationLevel(0)
   writer.write('@js.native').newLine()
-  if (namespace) {
-    writer.write(`@JSGlobal("${namespace}.${enumName}")`).newLine()
-  } else {
-    writer.write(`@JSGlobal("${enumName}")`).newLine()
-  }
-  writer.write(`object ${enumName} extends js.Object `).block(() => {
-    // Generate variables for each enum member
-    node.members.forEach(member => {
-      const memberName = member.name?.getText()
-      if (memberName) {
-        writer.writeLine(`var ${memberName}: ${enumName} = js.native`)
-      }
-    })
-    
-    // Generate JSBracketAccess apply method
-    writer.writeLine('@JSBracketAccess')
-    writer.writeLine(`def apply(value: ${enumName}): String = js.native`)
+  writer.write(`trait ${name} extends js.Function `).block(() => {
+    signatures.forEach(signature => writer.writeLine(signature))
   })
   writer.newLine()
   writer.setIndentationLevel(currentIndentLevel)
 }
 
-function processTypeAliasDeclaration(_node: ts.TypeAliasDeclaration, _writer: CodeBlockWriter, _namespace: string): void {
-  // All type aliases are deferred to either module objects (for namespaces) 
-  // or global scope objects (for top level). Don't process them immediately.
-  return
+function describeFunctionType(node: ts.SignatureDeclarationBase): string {
+  // Name the trait after the method, or the declaration the function type annotates
+  for (let current: ts.Node = node; current; current = current.parent) {
+    if (ts.isTypeNode(current)) continue
+    const name = ts.getNameOfDeclaration(current as ts.Declaration)
+    if (name && ts.isIdentifier(name)) return `${capitalize(name.text)}Function`
+    break
+  }
+  return 'VarargsFunction'
+}
+
+function getReferencedTypeParameters(node: ts.Node): string[] {
+  // Type parameters of enclosing declarations become type parameters of the synthesized trait
+  const inScope = new Set<string>()
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    const typeParameters = (current as ts.DeclarationWithTypeParameterChildren).typeParameters
+    typeParameters?.forEach(tp => inScope.add(tp.name.text))
+  }
+  const referenced: string[] = []
+  const visit = (child: ts.Node): void => {
+    if (ts.isTypeReferenceNode(child) && ts.isIdentifier(child.typeName) && inScope.has(child.typeName.text) && !referenced.includes(child.typeName.text)) {
+      referenced.push(child.typeName.text)
+    }
+    ts.forEachChild(child, visit)
+  }
+  visit(node)
+  return referenced
+}
+
+// Whether a type alias is emitted as a trait with the members of the object type it maps
+function isSynthesizedTrait(node: ts.TypeAliasDeclaration): boolean {
+  return getSynthesizedTraitMembers(node) !== undefined
+}
+
+function getSynthesizedTraitMembers(node: ts.TypeAliasDeclaration): SynthesizedMember[] | undefined {
+  return node.typeParameters ? undefined : expandMappedType(node.type)
+}
+
+// Members of a Partial, Required, Readonly, Pick or Omit type, or of a homomorphic mapped type
+// ({ [K in keyof T]: T[K] }), when the object type they map can be resolved to its declaration
+function expandMappedType(typeNode: ts.TypeNode): SynthesizedMember[] | undefined {
+  if (ts.isParenthesizedTypeNode(typeNode)) return expandMappedType(typeNode.type)
+  if (ts.isMappedTypeNode(typeNode)) {
+    const { typeParameter, type } = typeNode
+    const constraint = typeParameter.constraint
+    if (typeNode.nameType || !constraint || !ts.isTypeOperatorNode(constraint) || constraint.operator !== ts.SyntaxKind.KeyOfKeyword) return undefined
+    // Only mappings that keep the type of each member can be expanded
+    if (!type || !ts.isIndexedAccessTypeNode(type) || type.objectType.getText() !== constraint.type.getText() || type.indexType.getText() !== typeParameter.name.text) return undefined
+    const applyModifier = (token: ts.Node | undefined, value: boolean) => token ? token.kind !== ts.SyntaxKind.MinusToken : value
+    return getMappedMembers(constraint.type)?.map(m => ({ ...m, isOptional: applyModifier(typeNode.questionToken, m.isOptional), isReadonly: applyModifier(typeNode.readonlyToken, m.isReadonly) }))
+  }
+  if (!ts.isTypeReferenceNode(typeNode) || !ts.isIdentifier(typeNode.typeName) || !typeNode.typeArguments) return undefined
+  const typeName = typeNode.typeName.text
+  if (activeContext.options.typeMappings?.[typeName]) return undefined
+  const [source, keys] = typeNode.typeArguments
+  switch (typeName) {
+    case 'Partial':
+      return getMappedMembers(source)?.map(m => ({ ...m, isOptional: true }))
+    case 'Required':
+      return getMappedMembers(source)?.map(m => ({ ...m, isOptional: false }))
+    case 'Readonly':
+      return getMappedMembers(source)?.map(m => ({ ...m, isReadonly: true }))
+    case 'Pick':
+    case 'Omit': {
+      const keyNames = keys && getLiteralKeyNames(keys)
+      return keyNames && getMappedMembers(source)?.filter(m => keyNames.includes(getMemberName(m.member)) === (typeName === 'Pick'))
+    }
+    default:
+      return undefined
+  }
+}
+
+// Members of the object type a utility or mapped type maps, which may itself be a utility or mapped type
+function getMappedMembers(typeNode: ts.TypeNode): SynthesizedMember[] | undefined {
+  if (ts.isTypeLiteralNode(typeNode)) return toSynthesizedMembers(typeNode.members)
+  if (ts.isTypeReferenceNode(typeNode) && !typeNode.typeArguments) return getDeclaredMembers(typeNode.typeName, new Set())
+  return expandMappedType(typeNode)
+}
+
+// Members of an interface, including the ones it inherits, or of a type alias to an object type literal
+function getDeclaredMembers(name: ts.EntityName | ts.Expression, visited: Set<ts.Declaration>): SynthesizedMember[] | undefined {
+  const declarations = resolveObjectTypeDeclarations(name)
+  if (declarations.length === 0 || declarations.some(declaration => visited.has(declaration))) return undefined
+  declarations.forEach(declaration => visited.add(declaration))
+
+  const inherited: SynthesizedMember[] = []
+  const own: SynthesizedMember[] = []
+  for (const declaration of declarations) {
+    if (ts.isTypeAliasDeclaration(declaration)) {
+      own.push(...toSynthesizedMembers((declaration.type as ts.TypeLiteralNode).members))
+      continue
+    }
+    for (const heritageType of declaration.heritageClauses?.flatMap(h => h.types) ?? []) {
+      // Members of generic parents would need their type arguments substituted
+      const parentMembers = heritageType.typeArguments ? undefined : getDeclaredMembers(heritageType.expression, visited)
+      if (!parentMembers) return undefined
+      inherited.push(...parentMembers)
+    }
+    own.push(...toSynthesizedMembers(declaration.members))
+  }
+  const ownNames = new Set(own.map(m => getMemberName(m.member)))
+  return [...inherited.filter(m => !ownNames.has(getMemberName(m.member))), ...own]
+}
+
+// Declarations of a non-generic object type: through the checker when converting a project, otherwise in the enclosing scopes
+function resolveObjectTypeDeclarations(name: ts.EntityName | ts.Expression): (ts.InterfaceDeclaration | ts.TypeAliasDeclaration)[] {
+  const isObjectTypeDeclaration = (node: ts.Node): node is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+    (ts.isInterfaceDeclaration(node) || (ts.isTypeAliasDeclaration(node) && ts.isTypeLiteralNode(node.type))) && !node.typeParameters
+  const checker = activeContext.checker
+  if (checker) {
+    let symbol = checker.getSymbolAtLocation(name)
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol)
+    return symbol?.declarations?.filter(isObjectTypeDeclaration) ?? []
+  }
+  if (ts.isQualifiedName(name)) {
+    // Qualified names (e.g. NS.Props) are looked up in the namespaces their left side refers to
+    return resolveValueDeclarations(name.left).filter(ts.isModuleDeclaration).flatMap(scope => scope.body && ts.isModuleBlock(scope.body)
+      ? scope.body.statements.filter(isObjectTypeDeclaration).filter(declaration => declaration.name.text === name.right.text)
+      : [])
+  }
+  if (!ts.isIdentifier(name)) return []
+  for (let scope: ts.Node | undefined = name.parent; scope; scope = scope.parent) {
+    if (ts.isSourceFile(scope) || ts.isModuleBlock(scope)) {
+      const declarations = scope.statements.filter(isObjectTypeDeclaration).filter(declaration => declaration.name.text === name.text)
+      if (declarations.length > 0) return declarations
+    }
+  }
+  return []
+}
+
+// Call, construct and index signatures are not carried over by mapped types
+function toSynthesizedMembers(members: readonly ts.TypeElement[]): SynthesizedMember[] {
+  return members
+    .filter((member): member is ts.PropertySignature | ts.MethodSignature => ts.isPropertySignature(member) || ts.isMethodSignature(member))
+    .map(member => ({
+      member,
+      isOptional: !!member.questionToken,
+      isReadonly: member.modifiers?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword) ?? false
+    }))
+}
+
+function getMemberName(member: ts.PropertySignature | ts.MethodSignature): string {
+  return ts.isIdentifier(member.name) || ts.isStringLiteral(member.name) ? member.name.text : member.name.getText()
+}
+
+// Names of a string literal type or of a union of them, as given to Pick and Omit
+function getLiteralKeyNames(typeNode: ts.TypeNode): string[] | undefined {
+  const keyTypes = ts.isUnionTypeNode(typeNode) ? typeNode.types : [typeNode]
+  const names = keyTypes.map(t => ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal) ? t.literal.text : undefined)
+  return names.every(name => name !== undefined) ? names as string[] : undefined
 }
 
-function processVariableStatement(node: ts.VariableStatement, writer: CodeBlockWriter, namespace: string): void {
+function processVariableStatement(node: ts.VariableStatement, writer: CodeBlockWriter, namespace: string, externalModule?: ExternalModule, nested = false): void {
   node.declarationList.declarations.forEach(decl => {
     const varName = decl.name.getText()
     
-    if (decl.type && ts.isTypeLiteralNode(decl.type)) {
+    // Object literal types with construct signatures are emitted as classes by processConstructorVariable
+    if (decl.type && ts.isTypeLiteralNode(decl.type) && !decl.type.members.some(ts.isConstructSignatureDeclaration)) {
       // Convert object literal type to Scala object
       writer.newLine()
       const currentIndentLevel = writer.getIndentationLevel()
       writer.setIndentationLevel(0)
       writer.write('@js.native').newLine()
-      if (namespace) {
-        writer.write(`@JSGlobal("${namespace}.${varName}")`).newLine()
-      } else {
-        writer.write('@JSGlobal').newLine()
-      }
+      if (!nested) writer.write(nativeLocationAnnotation(varName, namespace, externalModule)).newLine()
       writer.write(`object ${varName} extends js.Object `).block(() => {
         (decl.type as ts.TypeLiteralNode).members.forEach((member: ts.TypeElement) => {
           if (ts.isPropertySignature(member)) {
-            const memberName = member.name?.getText() || 'unknown'
-            const memberType = member.type ? convertTypeToScala(member.type) : 'js.Any'
-            
-            // Handle numeric keys by wrapping in backticks
-            const safeMemberName = /^[0-9]/.test(memberName) || memberName.includes('.') 
-              ? `\`${memberName}\`` 
-              : memberName
-            
-            writer.writeLine(`var ${safeMemberName}: ${memberType} = js.native`)
+            const memberName = getScalaMemberName(member.name)
+            if (!memberName) return
+            const memberType = convertOptionalType(member.type ? convertTypeToScala(member.type) : 'js.Any', member.questionToken)
+            writeJSName(memberName, writer)
+            writer.writeLine(`var ${memberName.name}: ${memberType} = js.native`)
+          } else if (ts.isCallSignatureDeclaration(member)) {
+            processInterfaceMember(member, writer)
           }
         })
       })
@@ -648,6 +2150,19 @@ function processVariableStatement(node: ts.VariableStatement, writer: CodeBlockW
   })
 }
 
+// Declared type of a variable, or the type of the literal a const is initialized with (e.g. "declare const x = 1")
+function convertVariableType(node: ts.VariableDeclaration): string {
+  if (node.type) return convertTypeToScala(node.type)
+  const initializer = node.initializer
+  if (!initializer) return 'js.Any'
+  if (ts.isStringLiteral(initializer) || ts.isNoSubstitutionTemplateLiteral(initializer)) return 'String'
+  if (initializer.kind === ts.SyntaxKind.TrueKeyword || initializer.kind === ts.SyntaxKind.FalseKeyword) return 'Boolean'
+  if (ts.isBigIntLiteral(initializer)) return 'js.BigInt'
+  const number = ts.isPrefixUnaryExpression(initializer) && initializer.operator === ts.SyntaxKind.MinusToken ? initializer.operand : initializer
+  if (ts.isNumericLiteral(number)) return number.text.includes('.') ? 'Double' : 'Int'
+  return 'js.Any'
+}
+
 function processFunctionDeclaration(node: ts.FunctionDeclaration, _writer: CodeBlockWriter, _namespace: string): void {
   const functionName = node.name?.getText()
   if (!functionName) return
@@ -656,6 +2171,15 @@ function processFunctionDeclaration(node: ts.FunctionDeclaration, _writer: CodeB
   // We'll handle this in a different way for export assignments
 }
 
+// Return type of a signature, falling back to the configured default when it declares none
+function convertReturnType(typeNode: ts.TypeNode | undefined, fallback: string): string {
+  return typeNode ? convertTypeToScala(typeNode) : activeContext.options.defaultReturnType ?? fallback
+}
+
+function readonlyKeyword(fallback: 'def' | 'val'): string {
+  return activeContext.options.readonlyKeyword ?? fallback
+}
+
 function convertTypeToScala(typeNode: ts.TypeNode): string {
   switch (typeNode.kind) {
     case ts.SyntaxKind.StringKeyword:
@@ -671,7 +2195,12 @@ function convertTypeToScala(typeNode: ts.TypeNode): string {
     case ts.SyntaxKind.UndefinedKeyword:
       return 'Unit'
     case ts.SyntaxKind.AnyKeyword:
+    case ts.SyntaxKind.UnknownKeyword:
       return 'js.Any'
+    case ts.SyntaxKind.SymbolKeyword:
+      return 'js.Symbol'
+    case ts.SyntaxKind.BigIntKeyword:
+      return 'js.BigInt'
     case ts.SyntaxKind.ObjectKeyword:
       return 'js.Object'
     case ts.SyntaxKind.NeverKeyword:
@@ -683,22 +2212,43 @@ function convertTypeToScala(typeNode: ts.TypeNode): string {
       return convertTypeReference(typeNode as ts.TypeReferenceNode)
     case ts.SyntaxKind.LiteralType:
       return convertLiteralType(typeNode as ts.LiteralTypeNode)
-    case ts.SyntaxKind.TypeLiteral:
-      return 'js.Any' // Object types become js.Any for now
+    case ts.SyntaxKind.TypeLiteral: {
+      // A type literal made of a single call signature is just a function type
+      const members = (typeNode as ts.TypeLiteralNode).members
+      if (members.length === 1 && ts.isCallSignatureDeclaration(members[0])) {
+        return convertFunctionType(members[0])
+      }
+      // Object types become js.Any for now
+      return convertLossyType(typeNode, 'warning', 'Object type literal converted to js.Any', 'js.Any')
+    }
     case ts.SyntaxKind.FunctionType:
       return convertFunctionType(typeNode as ts.FunctionTypeNode)
     case ts.SyntaxKind.ParenthesizedType:
       return convertTypeToScala((typeNode as ts.ParenthesizedTypeNode).type)
     case ts.SyntaxKind.ArrayType:
       return convertArrayType(typeNode as ts.ArrayTypeNode)
+    case ts.SyntaxKind.TupleType:
+      return convertTupleType(typeNode as ts.TupleTypeNode)
     case ts.SyntaxKind.UnionType:
       return convertUnionType(typeNode as ts.UnionTypeNode)
     case ts.SyntaxKind.IntersectionType:
       return convertIntersectionType(typeNode as ts.IntersectionTypeNode)
     case ts.SyntaxKind.TypeOperator:
       return convertTypeOperator(typeNode as ts.TypeOperatorNode)
+    case ts.SyntaxKind.MappedType:
+      return convertMappedType(typeNode as ts.MappedTypeNode)
+    case ts.SyntaxKind.IndexedAccessType:
+      return convertIndexedAccessType(typeNode as ts.IndexedAccessTypeNode)
+    case ts.SyntaxKind.ConditionalType:
+      return convertConditionalType(typeNode as ts.ConditionalTypeNode)
+    case ts.SyntaxKind.TypeQuery:
+      return convertTypeQuery(typeNode as ts.TypeQueryNode)
+    case ts.SyntaxKind.ImportType:
+      return convertImportType(typeNode as ts.ImportTypeNode)
+    case ts.SyntaxKind.TemplateLiteralType:
+      return `String${convertTemplateLiteralPattern(typeNode as ts.TemplateLiteralTypeNode)}`
     default:
-      return 'js.Any'
+      return convertLossyType(typeNode, 'warning', `Unsupported type ${ts.SyntaxKind[typeNode.kind]} converted to js.Any`, 'js.Any')
   }
 }
 
@@ -713,17 +2263,83 @@ function convertLiteralType(node: ts.LiteralTypeNode): string {
     case ts.SyntaxKind.NumericLiteral:
       const text = literal.getText()
       return text.includes('.') ? 'Double' : 'Int'
+    case ts.SyntaxKind.BigIntLiteral:
+      return 'js.BigInt'
+    case ts.SyntaxKind.PrefixUnaryExpression: {
+      // Negative numbers, e.g. -1 or -1n
+      const operand = (literal as ts.PrefixUnaryExpression).operand
+      if (ts.isBigIntLiteral(operand)) return 'js.BigInt'
+      if (ts.isNumericLiteral(operand)) return operand.text.includes('.') ? 'Double' : 'Int'
+      return convertLossyType(node, 'warning', `Unsupported literal type ${node.getText()} converted to js.Any`, 'js.Any')
+    }
     case ts.SyntaxKind.NullKeyword:
       return 'Null'
     default:
-      return 'js.Any'
+      return convertLossyType(node, 'warning', `Unsupported literal type ${ts.SyntaxKind[literal.kind]} converted to js.Any`, 'js.Any')
   }
 }
 
+// Template literal types (e.g. `on${string}`) are strings, whose pattern is kept in a comment
+function convertTemplateLiteralPattern(node: ts.TemplateLiteralTypeNode): string {
+  reportDiagnostic(node, 'info', 'Template literal type converted to String', 'String')
+  return `${NOTE_MARKER_START}${node.getText().replace(/\s+/g, ' ')}${NOTE_MARKER_END}`
+}
+
 function convertTypeReference(node: ts.TypeReferenceNode): string {
   const typeName = node.typeName.getText()
+  // Types inferred by a conditional type have no Scala counterpart; the conditional type reports the approximation
+  if (isInferredTypeReference(node)) return 'js.Any'
+  if (node.typeArguments && !activeContext.options.typeMappings?.[typeName]) {
+    const utilityType = convertUtilityType(node, typeName, node.typeArguments)
+    if (utilityType) return utilityType
+  }
   const typeArgs = node.typeArguments?.map(arg => convertTypeToScala(arg)) || []
-  
+  return convertTypeName(typeName, typeArgs)
+}
+
+// Records become dictionaries, while the other utility types are expanded into traits (see expandMappedType)
+function convertUtilityType(node: ts.TypeReferenceNode, typeName: string, typeArgs: readonly ts.TypeNode[]): string | undefined {
+  switch (typeName) {
+    case 'Record': {
+      if (typeArgs.length !== 2) return undefined
+      const dictionary = `js.Dictionary[${convertTypeToScala(typeArgs[1])}]`
+      if (typeArgs[0].kind === ts.SyntaxKind.StringKeyword) return dictionary
+      return convertLossyType(node, 'info', `Record with keys ${typeArgs[0].getText()} converted to ${dictionary}`, dictionary)
+    }
+    case 'Partial':
+    case 'Required':
+    case 'Readonly':
+    case 'Pick':
+    case 'Omit': {
+      const members = expandMappedType(node)
+      if (members) return getInlineTraitName(node, members)
+      return convertLossyType(node, 'warning', `${typeName} type of an unresolved object type converted to js.Object`, 'js.Object')
+    }
+    default:
+      return undefined
+  }
+}
+
+// Mapped types of a known object type are expanded into traits, and mapped types over arbitrary keys read like index signatures
+function convertMappedType(node: ts.MappedTypeNode): string {
+  const members = expandMappedType(node)
+  if (members) return getInlineTraitName(node, members)
+  const dictionary = `js.Dictionary[${node.type ? convertTypeToScala(node.type) : 'js.Any'}]`
+  if (node.typeParameter.constraint?.kind === ts.SyntaxKind.StringKeyword && !node.nameType) return dictionary
+  return convertLossyType(node, 'info', `Mapped type converted to ${dictionary}`, dictionary)
+}
+
+function convertHeritageType(node: ts.ExpressionWithTypeArguments): string {
+  const typeName = node.expression.getText()
+  const typeArgs = node.typeArguments?.map(arg => convertTypeToScala(arg)) || []
+  // Wildcard types cannot be extended, so read-only arrays are extended as plain arrays
+  if (typeName === 'ReadonlyArray' && typeArgs.length > 0) {
+    return `js.Array[${typeArgs.join(', ')}]`
+  }
+  return convertTypeName(typeName, typeArgs)
+}
+
+function convertTypeName(typeName: string, typeArgs: string[]): string {
   // Handle special type mappings
   if (typeName === 'Array' && typeArgs.length > 0) {
     return `js.Array[${typeArgs.join(', ')}]`
@@ -734,30 +2350,12 @@ function convertTypeReference(node: ts.TypeReferenceNode): string {
   }
   
   // Map common TypeScript types to Scala.js equivalents
-  const typeMapping: Record<string, string> = {
-    'null': 'Null',
-    'undefined': 'Unit',
-    'Float32Array': 'js.typedarray.Float32Array',
-    'Float64Array': 'js.typedarray.Float64Array',
-    'Uint8Array': 'js.typedarray.Uint8Array',
-    'Uint16Array': 'js.typedarray.Uint16Array',
-    'Uint32Array': 'js.typedarray.Uint32Array',
-    'Int8Array': 'js.typedarray.Int8Array',
-    'Int16Array': 'js.typedarray.Int16Array',
-    'Int32Array': 'js.typedarray.Int32Array',
-    'Uint8ClampedArray': 'js.typedarray.Uint8ClampedArray',
-    'ArrayBuffer': 'js.typedarray.ArrayBuffer',
-    'ArrayBufferView': 'js.typedarray.ArrayBufferView',
-    'DataView': 'js.typedarray.DataView',
-    'ReadonlyArray': 'js.Array',
-    'PromiseLike': 'js.Thenable'
-  }
-  
-  if (typeMapping[typeName]) {
+  const mappedType = activeContext.options.typeMappings?.[typeName] ?? DEFAULT_TYPE_MAPPINGS[typeName]
+  if (mappedType) {
     if (typeArgs.length > 0) {
-      return `${typeMapping[typeName]}[${typeArgs.join(', ')}]`
+      return `${mappedType}[${typeArgs.join(', ')}]`
     }
-    return typeMapping[typeName]
+    return mappedType
   }
   
   if (typeArgs.length > 0) {
@@ -766,19 +2364,322 @@ function convertTypeReference(node: ts.TypeReferenceNode): string {
   return typeName
 }
 
-function convertFunctionType(node: ts.FunctionTypeNode): string {
-  const params = node.parameters.map(p => p.type ? convertTypeToScala(p.type) : 'js.Any')
+function convertFunctionType(node: ts.SignatureDeclarationBase): string {
   const returnType = node.type ? convertTypeToScala(node.type) : 'Unit'
   
-  if (params.length === 0) {
-    return `js.Function0[${returnType}]`
-  } else if (params.length === 1) {
-    return `js.Function1[${params[0]}, ${returnType}]`
-  } else if (params.length === 2) {
-    return `js.Function2[${params[0]}, ${params[1]}, ${returnType}]`
+  // A leading "this" parameter types the receiver, which js.ThisFunctionN passes first
+  const thisParameter = node.parameters.find(p => ts.isIdentifier(p.name) && p.name.text === 'this')
+  const parameters = node.parameters.filter(p => p !== thisParameter)
+  const thisType = thisParameter ? (thisParameter.type ? convertTypeToScala(thisParameter.type) : 'js.Any') : undefined
+  
+  // Rest parameters and arities beyond js.Function22 have no js.FunctionN, so they get a js.Function subtrait
+  // whose apply takes the parameters; an explicit receiver goes through Function.prototype.call instead
+  if (parameters.some(p => p.dotDotDotToken) || parameters.length > (thisType ? 21 : 22)) {
+    const signatures = convertParameters(parameters).map(params => thisType
+      ? `def call(thisArg: ${[thisType, params].filter(Boolean).join(', ')}): ${returnType} = js.native`
+      : `def apply(${params}): ${returnType} = js.native`)
+    const typeParams = getReferencedTypeParameters(node)
+    const name = getInlineTraitName(node, [], describeFunctionType(node), signatures, typeParams)
+    return typeParams.length > 0 ? `${name}[${typeParams.join(', ')}]` : name
+  }
+  
+  const params = parameters.map(p => p.type ? convertTypeToScala(p.type) : 'js.Any')
+  if (thisType) {
+    return `js.ThisFunction${params.length}[${[thisType, ...params, returnType].join(', ')}]`
+  }
+  return `js.Function${params.length}[${[...params, returnType].join(', ')}]`
+}
+
+// Members of known object types, and elements of arrays and tuples, are looked up by their literal keys
+function convertIndexedAccessType(node: ts.IndexedAccessTypeNode): string {
+  const { objectType, indexType } = node
+  const fallback = () => convertLossyType(node, 'warning', `Indexed access type ${node.getText()} converted to js.Any`, 'js.Any')
+
+  const elementType = getIndexedElementType(objectType, indexType)
+  if (elementType) return convertTypeToScala(elementType)
+
+  const keyNames = getLiteralKeyNames(indexType)
+  const members = keyNames && getMappedMembers(objectType)
+  if (!keyNames || !members) return fallback()
+  const types: string[] = []
+  for (const keyName of keyNames) {
+    const keyMembers = members.filter(m => getMemberName(m.member) === keyName)
+    if (keyMembers.length === 0) return fallback()
+    keyMembers.forEach(({ member, isOptional }) => {
+      const memberType = ts.isPropertySignature(member) ? (member.type ? convertTypeToScala(member.type) : 'js.Any') : convertFunctionType(member)
+      types.push(convertOptionalType(memberType, isOptional))
+    })
+  }
+  return [...new Set(types)].join(' | ')
+}
+
+function getIndexedElementType(objectType: ts.TypeNode, indexType: ts.TypeNode): ts.TypeNode | undefined {
+  if (ts.isParenthesizedTypeNode(objectType)) return getIndexedElementType(objectType.type, indexType)
+  const isNumberIndex = indexType.kind === ts.SyntaxKind.NumberKeyword || (ts.isLiteralTypeNode(indexType) && ts.isNumericLiteral(indexType.literal))
+  if (!isNumberIndex) return undefined
+  if (ts.isArrayTypeNode(objectType)) return objectType.elementType
+  if (ts.isTypeReferenceNode(objectType) && ['Array', 'ReadonlyArray'].includes(objectType.typeName.getText()) && objectType.typeArguments?.length === 1) {
+    return objectType.typeArguments[0]
+  }
+  if (ts.isTupleTypeNode(objectType) && ts.isLiteralTypeNode(indexType)) {
+    const element = objectType.elements[Number((indexType.literal as ts.NumericLiteral).text)]
+    if (element && !ts.isRestTypeNode(element) && !ts.isOptionalTypeNode(element)) return ts.isNamedTupleMember(element) ? (element.questionToken || element.dotDotDotToken ? undefined : element.type) : element
+  }
+  return undefined
+}
+
+// Conditional types between known types are evaluated, while the others are approximated by the union of their branches
+function convertConditionalType(node: ts.ConditionalTypeNode): string {
+  const isAssignable = isKnownAssignable(node.checkType, node.extendsType)
+  if (isAssignable !== undefined) {
+    return convertTypeToScala(isAssignable ? node.trueType : node.falseType)
+  }
+  const branches = [node.trueType, node.falseType].filter(branch => branch.kind !== ts.SyntaxKind.NeverKeyword)
+  const approximation = branches.length > 0 ? convertUnionMembers(branches) : 'Nothing'
+  return convertLossyType(node, 'info', `Conditional type approximated as ${approximation}`, approximation)
+}
+
+// Whether a type is assignable to another, when both are made of primitive and literal types
+function isKnownAssignable(source: ts.TypeNode, target: ts.TypeNode): boolean | undefined {
+  if (ts.isParenthesizedTypeNode(source)) return isKnownAssignable(source.type, target)
+  if (ts.isParenthesizedTypeNode(target)) return isKnownAssignable(source, target.type)
+  if (ts.isUnionTypeNode(source)) return combineAssignability(source.types.map(t => isKnownAssignable(t, target)), true)
+  if (ts.isUnionTypeNode(target)) return combineAssignability(target.types.map(t => isKnownAssignable(source, t)), false)
+  if (!isKnownType(source)) return undefined
+  if (target.kind === ts.SyntaxKind.AnyKeyword || target.kind === ts.SyntaxKind.UnknownKeyword) return true
+  if (!isKnownType(target)) return undefined
+  if (ts.isLiteralTypeNode(source) && ts.isLiteralTypeNode(target)) {
+    // Compare values, so that 'a' matches "a" and 0x10 matches 16
+    const sourceKind = getLiteralPrimitiveKind(source)
+    return sourceKind !== undefined && sourceKind === getLiteralPrimitiveKind(target) && getLiteralValue(source) === getLiteralValue(target)
+  }
+  if (source.getText() === target.getText()) return true
+  return ts.isLiteralTypeNode(source) && getLiteralPrimitiveKind(source) === target.kind
+}
+
+function getLiteralValue(node: ts.LiteralTypeNode): string {
+  const literal = node.literal
+  if (ts.isStringLiteral(literal) || ts.isNoSubstitutionTemplateLiteral(literal)) return literal.text
+  if (ts.isNumericLiteral(literal)) return String(Number(literal.text))
+  if (ts.isBigIntLiteral(literal)) return BigInt(literal.text.slice(0, -1)).toString()
+  if (ts.isPrefixUnaryExpression(literal) && literal.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(literal.operand)) {
+    return String(-Number(literal.operand.text))
+  }
+  return literal.getText()
+}
+
+// Combines the assignability of union members: all of them must be assignable for a union source, any of them for a union target
+function combineAssignability(results: (boolean | undefined)[], every: boolean): boolean | undefined {
+  if (results.includes(every ? false : true)) return !every
+  return results.includes(undefined) ? undefined : every
+}
+
+const KNOWN_TYPE_KINDS: readonly ts.SyntaxKind[] = [
+  ts.SyntaxKind.StringKeyword, ts.SyntaxKind.NumberKeyword, ts.SyntaxKind.BooleanKeyword, ts.SyntaxKind.BigIntKeyword,
+  ts.SyntaxKind.SymbolKeyword, ts.SyntaxKind.NullKeyword, ts.SyntaxKind.UndefinedKeyword, ts.SyntaxKind.VoidKeyword, ts.SyntaxKind.LiteralType
+]
+
+function isKnownType(typeNode: ts.TypeNode): boolean {
+  return KNOWN_TYPE_KINDS.includes(typeNode.kind)
+}
+
+function getLiteralPrimitiveKind(node: ts.LiteralTypeNode): ts.SyntaxKind | undefined {
+  switch (node.literal.kind) {
+    case ts.SyntaxKind.StringLiteral:
+    case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+      return ts.SyntaxKind.StringKeyword
+    case ts.SyntaxKind.NumericLiteral:
+    case ts.SyntaxKind.PrefixUnaryExpression:
+      return ts.SyntaxKind.NumberKeyword
+    case ts.SyntaxKind.BigIntLiteral:
+      return ts.SyntaxKind.BigIntKeyword
+    case ts.SyntaxKind.TrueKeyword:
+    case ts.SyntaxKind.FalseKeyword:
+      return ts.SyntaxKind.BooleanKeyword
+    default:
+      return undefined
+  }
+}
+
+// Whether a type reference names a type declared by "infer" in the condition of an enclosing conditional type
+function isInferredTypeReference(node: ts.TypeReferenceNode): boolean {
+  if (!ts.isIdentifier(node.typeName)) return false
+  const name = node.typeName.text
+  let child: ts.Node = node
+  for (let parent = node.parent; parent; child = parent, parent = parent.parent) {
+    if (ts.isConditionalTypeNode(parent) && child === parent.trueType && declaresInferredType(parent.extendsType, name)) return true
+  }
+  return false
+}
+
+function declaresInferredType(node: ts.Node, name: string): boolean {
+  if (ts.isInferTypeNode(node)) return node.typeParameter.name.text === name
+  return ts.forEachChild(node, child => declaresInferredType(child, name) || undefined) ?? false
+}
+
+// "typeof X" is the singleton type of the object X is emitted as, or the declared type of a variable or function
+function convertTypeQuery(node: ts.TypeQueryNode): string {
+  const name = node.exprName.getText()
+  const declarations = resolveValueDeclarations(node.exprName)
+  const classDeclaration = declarations.find(ts.isClassDeclaration)
+  const functions = declarations.filter(ts.isFunctionDeclaration)
+  const namespaces = declarations.filter(ts.isModuleDeclaration)
+
+  if (classDeclaration) {
+    // Only classes with static members or merged values have a companion object
+    const hasStaticMembers = classDeclaration.members.some(member => ts.canHaveModifiers(member) && ts.getModifiers(member)?.some(m => m.kind === ts.SyntaxKind.StaticKeyword))
+    if (hasStaticMembers || namespaces.length > 0 || functions.length > 0) return `${name}.type`
+    return convertLossyType(node, 'info', `Type query of class ${name} without a companion object approximated as js.Dynamic`, 'js.Dynamic')
+  }
+  if (declarations.some(ts.isEnumDeclaration)) return `${name}.type`
+  if (namespaces.length > 0) {
+    // Namespaces emitted as packages keep their values in a module object named after them
+    if (functions.length > 0 || isEmittedAsObject(namespaces[0])) return `${name}.type`
+    return `${name}.${capitalize((namespaces[0].name as ts.Identifier).text)}.type`
+  }
+  // Types written in the declaration are converted here, which only works where the names they refer to are in scope
+  const convertInScope = (declaration: ts.Node, convert: () => string) => isInScopeAt(declaration, node)
+    ? convert()
+    : convertLossyType(node, 'warning', `Type query ${node.getText()} converted to js.Any, as the types of ${name} are not in scope here`, 'js.Any')
+  if (functions.length > 0) {
+    const functionType = convertInScope(functions[0], () => convertFunctionType(functions[0]))
+    if (functions.length === 1) return functionType
+    return convertLossyType(node, 'info', `Type query of overloaded function ${name} approximated by its first overload`, functionType)
+  }
+  const variable = declarations.find(declaration => ts.isVariableDeclaration(declaration) || ts.isParameter(declaration)) as ts.VariableDeclaration | ts.ParameterDeclaration | undefined
+  const variableType = variable?.type
+  if (variableType) return convertInScope(variableType, () => convertTypeToScala(variableType))
+  if (variable && ts.isVariableDeclaration(variable) && variable.initializer) return convertVariableType(variable)
+  return convertLossyType(node, 'warning', `Type query ${node.getText()} converted to js.Any`, 'js.Any')
+}
+
+// Whether the names a declaration refers to (e.g. Vertex in "origin: Vertex") mean the same at another node
+function isInScopeAt(declaration: ts.Node, node: ts.Node): boolean {
+  const names: ts.Identifier[] = []
+  const visit = (child: ts.Node): void => {
+    if (ts.isTypeReferenceNode(child) || ts.isTypeQueryNode(child)) {
+      let name = ts.isTypeReferenceNode(child) ? child.typeName : child.exprName
+      while (ts.isQualifiedName(name)) name = name.left
+      names.push(name)
+    }
+    ts.forEachChild(child, visit)
+  }
+  if (ts.isFunctionLike(declaration)) {
+    declaration.parameters.forEach(visit)
+    if (declaration.type) visit(declaration.type)
   } else {
-    return 'js.Function'
+    visit(declaration)
+  }
+
+  const checker = activeContext.checker
+  if (checker) {
+    const resolve = (symbol: ts.Symbol | undefined) => symbol && symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol
+    const visible = checker.getSymbolsInScope(node, ts.SymbolFlags.Type | ts.SymbolFlags.Value | ts.SymbolFlags.Namespace | ts.SymbolFlags.Alias)
+    return names.every(name => {
+      const symbol = resolve(checker.getSymbolAtLocation(name))
+      if (!symbol) return true
+      const match = visible.find(candidate => candidate.name === name.text)
+      return !!match && resolve(match) === symbol
+    })
+  }
+  // Without a checker, names must be declared globally, at the top level of the file or around the node
+  return names.every(name => {
+    const scope = findDeclaringScope(name)
+    return !scope || ts.isSourceFile(scope) || isAncestorOf(scope, node)
+  })
+}
+
+// Innermost node declaring a name, out of the scopes and type parameter lists around it
+function findDeclaringScope(name: ts.Identifier): ts.Node | undefined {
+  for (let scope: ts.Node | undefined = name.parent; scope; scope = scope.parent) {
+    const typeParameters = (scope as ts.DeclarationWithTypeParameterChildren).typeParameters
+    if (typeParameters?.some(tp => tp.name.text === name.text)) return scope
+    if (ts.isSourceFile(scope) || ts.isModuleBlock(scope)) {
+      const declares = scope.statements.some(statement => {
+        if (ts.isVariableStatement(statement)) return statement.declarationList.declarations.some(declaration => ts.isIdentifier(declaration.name) && declaration.name.text === name.text)
+        const declarationName = ts.getNameOfDeclaration(statement as ts.DeclarationStatement)
+        return !!declarationName && ts.isIdentifier(declarationName) && declarationName.text === name.text
+      })
+      if (declares) return scope
+    }
+  }
+  return undefined
+}
+
+function isAncestorOf(ancestor: ts.Node, node: ts.Node): boolean {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (current === ancestor) return true
+  }
+  return false
+}
+
+// Declarations of the value a name refers to: through the checker when converting a project, otherwise in the enclosing scopes
+function resolveValueDeclarations(name: ts.EntityName): ts.Declaration[] {
+  const checker = activeContext.checker
+  if (checker) {
+    let symbol = checker.getSymbolAtLocation(name)
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol)
+    return symbol?.declarations ?? []
+  }
+  if (ts.isQualifiedName(name)) {
+    return resolveValueDeclarations(name.left).filter(ts.isModuleDeclaration).flatMap(scope => {
+      if (scope.body && ts.isModuleBlock(scope.body)) return findValueDeclarations(scope.body.statements, name.right.text)
+      // Dotted namespaces ("namespace A.B") declare their next segment as their body
+      if (scope.body && ts.isModuleDeclaration(scope.body) && scope.body.name.text === name.right.text) return [scope.body]
+      return []
+    })
   }
+  for (let scope: ts.Node | undefined = name.parent; scope; scope = scope.parent) {
+    if (ts.isSourceFile(scope) || ts.isModuleBlock(scope)) {
+      const declarations = findValueDeclarations(scope.statements, name.text)
+      if (declarations.length > 0) return declarations
+    } else if (ts.isFunctionLike(scope)) {
+      const parameter = scope.parameters.find(p => ts.isIdentifier(p.name) && p.name.text === name.text)
+      if (parameter) return [parameter]
+    }
+  }
+  return []
+}
+
+function findValueDeclarations(statements: readonly ts.Statement[], name: string): ts.Declaration[] {
+  return statements.flatMap((statement): ts.Declaration[] => {
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations.filter(declaration => ts.isIdentifier(declaration.name) && declaration.name.text === name)
+    }
+    const isValueDeclaration = ts.isClassDeclaration(statement) || ts.isFunctionDeclaration(statement) || ts.isEnumDeclaration(statement) ||
+      (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name))
+    return isValueDeclaration && statement.name?.text === name ? [statement] : []
+  })
+}
+
+// Whether a namespace is emitted as an object rather than a package: when it is merged
+// with other declarations, or nested in a namespace that is
+function isEmittedAsObject(node: ts.ModuleDeclaration): boolean {
+  for (let declaration: ts.Node = node; !ts.isSourceFile(declaration); declaration = declaration.parent) {
+    if (!ts.isModuleDeclaration(declaration) || !ts.isIdentifier(declaration.name)) continue
+    const parent = declaration.parent
+    if (!ts.isSourceFile(parent) && !ts.isModuleBlock(parent)) continue
+    const name = declaration.name.text
+    if (parent.statements.some(statement => statement !== declaration && getMergeableName(statement) === name)) return true
+  }
+  return false
+}
+
+// Types imported inline (import("mod").Foo) live in the facade package of their module,
+// and "typeof import("mod")" is the type of its module object
+function convertImportType(node: ts.ImportTypeNode): string {
+  const argument = node.argument
+  if (!ts.isLiteralTypeNode(argument) || !ts.isStringLiteral(argument.literal) || (node.isTypeOf ? node.qualifier : !node.qualifier)) {
+    return convertLossyType(node, 'warning', `Import type ${node.getText()} converted to js.Any`, 'js.Any')
+  }
+  const specifier = argument.literal.text
+  const modulePackage = activeContext.options.importMappings?.[specifier] ?? getModulePackageName(specifier)
+  if (node.isTypeOf) {
+    const objectName = specifier.startsWith('.') ? activeContext.options.globalObjectName ?? capitalize(getFilePackageName(specifier)) : externalModuleObjectName(specifier)
+    return `${modulePackage}.${objectName}.type`
+  }
+  const typeArgs = node.typeArguments?.map(arg => convertTypeToScala(arg)) || []
+  return convertTypeName(`${modulePackage}.${node.qualifier!.getText()}`, typeArgs)
 }
 
 function convertArrayType(node: ts.ArrayTypeNode): string {
@@ -786,26 +2687,56 @@ function convertArrayType(node: ts.ArrayTypeNode): string {
   return `js.Array[${elementType}]`
 }
 
+function convertTupleType(node: ts.TupleTypeNode): string {
+  // Named tuple members only label their element type
+  const elements = node.elements.map(element => ts.isNamedTupleMember(element) ? element : { type: element, questionToken: undefined, dotDotDotToken: undefined })
+  const isVariadic = elements.some(element =>
+    element.questionToken || element.dotDotDotToken || ts.isOptionalTypeNode(element.type) || ts.isRestTypeNode(element.type)
+  )
+  
+  // Scala.js only provides js.Tuple2 to js.Tuple22
+  if (!isVariadic && elements.length >= 2 && elements.length <= 22) {
+    return `js.Tuple${elements.length}[${elements.map(element => convertTypeToScala(element.type)).join(', ')}]`
+  }
+  
+  // Tuples of other shapes fall back to an array of all their element types
+  const elementTypes = elements.map(element => {
+    let type = element.type
+    if (ts.isOptionalTypeNode(type) || ts.isRestTypeNode(type)) type = type.type
+    if ((element.dotDotDotToken || ts.isRestTypeNode(element.type)) && ts.isArrayTypeNode(type)) type = type.elementType
+    return convertTypeToScala(type)
+  })
+  const uniqueTypes = [...new Set(elementTypes)]
+  const fallback = `js.Array[${uniqueTypes.length > 0 ? uniqueTypes.join(' | ') : 'js.Any'}]`
+  return convertLossyType(node, 'info', `Tuple type without a matching js.TupleN converted to ${fallback}`, fallback)
+}
+
 function convertUnionType(node: ts.UnionTypeNode): string {
-  const types = node.types.map(t => convertTypeToScala(t))
+  return convertUnionMembers(node.types)
+}
+
+function convertUnionMembers(unionTypes: readonly ts.TypeNode[]): string {
+  const types = unionTypes.map(t => convertTypeToScala(t))
+  
+  // Template literal types are strings too, keeping their patterns in a comment
+  const isStringLiteral = (t: ts.TypeNode) => (ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal)) || ts.isTemplateLiteralTypeNode(t)
+  const stringType = `String${unionTypes.filter(ts.isTemplateLiteralTypeNode).map(convertTemplateLiteralPattern).join('')}`
   
   // Check if all types are string literals - if so, simplify to String
-  const allStringLiterals = node.types.every(t => 
-    ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal)
-  )
+  const allStringLiterals = unionTypes.every(isStringLiteral)
   
   if (allStringLiterals) {
-    return 'String'
+    return stringType
   }
   
   // Check if all types are numeric literals of the same category
-  const allNumericLiterals = node.types.every(t => 
+  const allNumericLiterals = unionTypes.every(t => 
     ts.isLiteralTypeNode(t) && ts.isNumericLiteral(t.literal)
   )
   
   if (allNumericLiterals) {
     // Check if all are integers or all are doubles
-    const allIntegers = node.types.every(t => {
+    const allIntegers = unionTypes.every(t => {
       if (ts.isLiteralTypeNode(t) && ts.isNumericLiteral(t.literal)) {
         const text = t.literal.getText()
         return !text.includes('.')
@@ -813,7 +2744,7 @@ function convertUnionType(node: ts.UnionTypeNode): string {
       return false
     })
     
-    const allDoubles = node.types.every(t => {
+    const allDoubles = unionTypes.every(t => {
       if (ts.isLiteralTypeNode(t) && ts.isNumericLiteral(t.literal)) {
         const text = t.literal.getText()
         return text.includes('.')
@@ -838,28 +2769,40 @@ function convertUnionType(node: ts.UnionTypeNode): string {
       return `${otherTypes[0]} | Null | Unit`
     }
   }
+
+  // Handle optional patterns: T | undefined becomes js.UndefOr[T]
+  const undefinedTypes = unionTypes.filter(t => t.kind === ts.SyntaxKind.UndefinedKeyword)
+  if (undefinedTypes.length > 0 && !uniqueTypes.includes('Null')) {
+    const definedTypes = unionTypes.filter(t => t.kind !== ts.SyntaxKind.UndefinedKeyword)
+    if (definedTypes.length > 0) {
+      return `js.UndefOr[${convertUnionMembers(definedTypes)}]`
+    }
+  }
   
   
   // If we have multiple string literals plus other types, simplify string literals to String
-  const hasStringLiterals = node.types.some(t => 
-    ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal)
-  )
-  const hasNonStringLiterals = node.types.some(t => 
-    !(ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal))
-  )
+  const hasStringLiterals = unionTypes.some(isStringLiteral)
+  const hasNonStringLiterals = unionTypes.some(t => !isStringLiteral(t))
   
   if (hasStringLiterals && hasNonStringLiterals) {
     // Replace all string literal types with a single "String"
-    const nonStringLiteralTypes = node.types
-      .filter(t => !(ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal)))
+    const nonStringLiteralTypes = unionTypes
+      .filter(t => !isStringLiteral(t))
       .map(t => convertTypeToScala(t))
     
-    return ['String', ...nonStringLiteralTypes].join(' | ')
+    return [stringType, ...nonStringLiteralTypes].join(' | ')
   }
   
   return uniqueTypes.join(' | ')
 }
 
+function convertOptionalType(typeText: string, questionToken: ts.QuestionToken | boolean | undefined): string {
+  if (!questionToken || typeText.startsWith('js.UndefOr[')) {
+    return typeText
+  }
+  return `js.UndefOr[${typeText}]`
+}
+
 function convertIntersectionType(node: ts.IntersectionTypeNode): string {
   const types = node.types.map(t => convertTypeToScala(t))
   
@@ -879,63 +2822,105 @@ function convertIntersectionType(node: ts.IntersectionTypeNode): string {
 function convertTypeOperator(node: ts.TypeOperatorNode): string {
   if (node.operator === ts.SyntaxKind.KeyOfKeyword) {
     // keyof T becomes String in most cases, as we can't replicate exact keyof semantics
-    return 'String'
+    return convertLossyType(node, 'info', 'keyof type approximated as String', 'String')
   }
-  return 'js.Any'
+  if (node.operator === ts.SyntaxKind.UniqueKeyword && node.type.kind === ts.SyntaxKind.SymbolKeyword) {
+    // unique symbol only tells constants apart
+    return 'js.Symbol'
+  }
+  if (node.operator === ts.SyntaxKind.ReadonlyKeyword) {
+    // readonly T[] reads like ReadonlyArray<T>; readonly tuples are converted like mutable ones
+    if (ts.isArrayTypeNode(node.type)) {
+      return `js.Array[_ <: ${convertTypeToScala(node.type.elementType)}]`
+    }
+    return convertTypeToScala(node.type)
+  }
+  return convertLossyType(node, 'warning', `Unsupported type operator ${ts.tokenToString(node.operator)} converted to js.Any`, 'js.Any')
 }
 
 function hasExportModifier(node: ts.Node): boolean {
   return (node as any).modifiers?.some((mod: ts.Modifier) => mod.kind === ts.SyntaxKind.ExportKeyword) ?? false
 }
 
-function generateModuleObject(moduleName: string, exports: {interfaces: ts.InterfaceDeclaration[], types: ts.TypeAliasDeclaration[], functions: ts.FunctionDeclaration[], variables: ts.VariableDeclaration[]}, writer: CodeBlockWriter): void {
+function hasDefaultModifier(node: ts.Node): boolean {
+  return (node as any).modifiers?.some((mod: ts.Modifier) => mod.kind === ts.SyntaxKind.DefaultKeyword) ?? false
+}
+
+function jsImportAnnotation(name: string, namespace: string, externalModule: ExternalModule): string {
+  const path = namespace ? `${namespace}.${name}` : name
+  if (path === externalModule.exportEquals) {
+    return `@JSImport("${externalModule.specifier}", JSImport.Namespace)`
+  }
+  if (path === externalModule.defaultExport) {
+    return `@JSImport("${externalModule.specifier}", JSImport.Default)`
+  }
+  // Members of an "export =" namespace are imported directly from the module
+  const exportEqualsPrefix = `${externalModule.exportEquals}.`
+  const importName = externalModule.exportEquals && path.startsWith(exportEqualsPrefix) ? path.slice(exportEqualsPrefix.length) : path
+  return `@JSImport("${externalModule.specifier}", "${importName}")`
+}
+
+// Location of a native declaration in its namespace, or in its external module
+function nativeLocationAnnotation(name: string, namespace: string, externalModule?: ExternalModule): string {
+  if (externalModule) return jsImportAnnotation(name, namespace, externalModule)
+  return namespace ? `@JSGlobal("${namespace}.${name}")` : '@JSGlobal'
+}
+
+function generateModuleObject(objectName: string, objectAnnotation: string, exports: {interfaces: ts.InterfaceDeclaration[], types: ts.TypeAliasDeclaration[], functions: ts.FunctionDeclaration[], variables: ts.VariableDeclaration[]}, writer: CodeBlockWriter, externalModule?: ExternalModule): void {
   if (exports.types.length === 0 && exports.functions.length === 0 && exports.variables.length === 0) return
   
   writer.newLine()
   const currentIndentLevel = writer.getIndentationLevel()
   writer.setIndentationLevel(0)
   writer.write('@js.native').newLine()
-  writer.write(`@JSGlobal("${moduleName}")`).newLine()
-  writer.write(`object ${capitalize(moduleName)} extends js.Object `).block(() => {
-    exports.types.forEach(typeAlias => {
-      const typeName = getTypeAliasName(typeAlias)
-      const typeValue = convertTypeAliasToScala(typeAlias)
-      writer.writeLine(`type ${typeName} = ${typeValue}`)
-    })
-    
-    exports.variables.forEach(variable => {
-      const varName = variable.name.getText()
-      const varType = variable.type ? convertTypeToScala(variable.type) : 'js.Any'
-      let keyword = 'def'
-      const declList = variable.parent as ts.VariableDeclarationList
-      if (declList.flags & ts.NodeFlags.Const) keyword = 'val'
-      writer.writeLine(`${keyword} ${varName}: ${varType} = js.native`)
-    })
+  writer.write(objectAnnotation).newLine()
+  writer.write(`object ${objectName} extends js.Object `).block(() => {
+    writeModuleObjectMembers(exports, writer, externalModule)
+  })
+  writer.newLine()
+  writer.setIndentationLevel(currentIndentLevel)
+}
 
-    exports.functions.forEach(func => {
-      const functionName = func.name!.getText()
-      
-      // Handle function type parameters
-      const typeParams = func.typeParameters?.map(tp => {
-        const paramName = tp.name.getText()
-        const constraint = tp.constraint ? ` <: ${convertTypeToScala(tp.constraint)}` : ''
-        return `${paramName}${constraint}`
-      }) || []
-      
-      const typeParamString = typeParams.length > 0 ? `[${typeParams.join(', ')}]` : ''
-      
-      const params = func.parameters.map(p => {
-        const paramName = p.name.getText()
-        const paramType = p.type ? convertTypeToScala(p.type) : 'js.Any'
-        return `${paramName}: ${paramType}`
-      }).join(', ')
-      
-      const returnType = func.type ? convertTypeToScala(func.type) : 'js.Dynamic'
+function writeModuleObjectMembers(exports: {types: ts.TypeAliasDeclaration[], functions: ts.FunctionDeclaration[], variables: ts.VariableDeclaration[]}, writer: CodeBlockWriter, externalModule?: ExternalModule): void {
+  exports.types.forEach(typeAlias => {
+    const typeName = getTypeAliasName(typeAlias)
+    const typeValue = convertTypeAliasToScala(typeAlias)
+    writer.writeLine(`type ${typeName} = ${typeValue}`)
+  })
+  
+  exports.variables.forEach(variable => {
+    const varName = variable.name.getText()
+    const varType = convertVariableType(variable)
+    let keyword = 'def'
+    const declList = variable.parent as ts.VariableDeclarationList
+    if (declList.flags & ts.NodeFlags.Const) keyword = 'val'
+    writeDocumentation(variable, writer)
+    if (varName === externalModule?.defaultExport) writer.writeLine('@JSName("default")')
+    writer.writeLine(`${keyword} ${varName}: ${varType} = js.native`)
+  })
+
+  exports.functions.forEach(func => {
+    let functionName = func.name!.getText()
+    // The module itself is callable when a function is its "export =" value
+    const isDefaultExport = functionName === externalModule?.defaultExport
+    if (functionName === externalModule?.exportEquals) functionName = 'apply'
+    
+    // Handle function type parameters
+    const typeParams = func.typeParameters?.map(tp => {
+      const paramName = tp.name.getText()
+      const constraint = tp.constraint ? ` <: ${convertTypeToScala(tp.constraint)}` : ''
+      return `${paramName}${constraint}`
+    }) || []
+    
+    const typeParamString = typeParams.length > 0 ? `[${typeParams.join(', ')}]` : ''
+    
+    const returnType = convertReturnType(func.type, 'js.Dynamic')
+    writeDocumentation(func, writer)
+    convertParameters(func.parameters).forEach(params => {
+      if (isDefaultExport) writer.writeLine('@JSName("default")')
       writer.writeLine(`def ${functionName}${typeParamString}(${params}): ${returnType} = js.native`)
     })
   })
-  writer.newLine()
-  writer.setIndentationLevel(currentIndentLevel)
 }
 
 function generateGlobalScopeObject(packageName: string, exports: {interfaces: ts.InterfaceDeclaration[], types: ts.TypeAliasDeclaration[], classes: ts.ClassDeclaration[], functions: ts.FunctionDeclaration[], exportAssignments: ts.ExportAssignment[], variables: ts.VariableDeclaration[]}, writer: CodeBlockWriter): void {
@@ -946,9 +2931,18 @@ function generateGlobalScopeObject(packageName: string, exports: {interfaces: ts
   writer.setIndentationLevel(0)
   writer.write('@js.native').newLine()
   writer.write('@JSGlobalScope').newLine()
-  writer.write(`object ${capitalize(packageName)} extends js.Object `).block(() => {
+  writer.write(`object ${getGlobalObjectName(packageName)} extends js.Object `).block(() => {
+    // Functions can be both exported and declared, but are emitted once along with their docs
     const emitted = new Set<string>()
-    const emit = (line: string) => { if (!emitted.has(line)) { emitted.add(line); writer.writeLine(line) } }
+    const emitFunction = (func: ts.FunctionDeclaration, lines: string[]) => {
+      const newLines = lines.filter(line => !emitted.has(line))
+      if (newLines.length === 0) return
+      writeDocumentation(func, writer)
+      newLines.forEach(line => {
+        emitted.add(line)
+        writer.writeLine(line)
+      })
+    }
     exports.types.forEach(typeAlias => {
       const typeName = getTypeAliasName(typeAlias)
       const typeValue = convertTypeAliasToScala(typeAlias)
@@ -965,14 +2959,8 @@ function generateGlobalScopeObject(packageName: string, exports: {interfaces: ts
         )
         if (exportedFunction) {
           const functionName = exportedFunction.name!.getText()
-          const params = exportedFunction.parameters.map(p => {
-            const paramName = p.name.getText()
-            const paramType = p.type ? convertTypeToScala(p.type) : 'js.Any'
-            return `${paramName}: ${paramType}`
-          }).join(', ')
-          
-          const returnType = exportedFunction.type ? convertTypeToScala(exportedFunction.type) : 'Unit'
-          emit(`def ${functionName}(${params}): ${returnType} = js.native`)
+          const returnType = convertReturnType(exportedFunction.type, 'Unit')
+          emitFunction(exportedFunction, convertParameters(exportedFunction.parameters).map(params => `def ${functionName}(${params}): ${returnType} = js.native`))
         }
       }
     })
@@ -980,23 +2968,19 @@ function generateGlobalScopeObject(packageName: string, exports: {interfaces: ts
     // Handle variable declarations
     exports.variables.forEach(variable => {
       const varName = variable.name.getText()
-      const varType = variable.type ? convertTypeToScala(variable.type) : 'js.Any'
+      const varType = convertVariableType(variable)
       let keyword = 'def'
       const declList = variable.parent as ts.VariableDeclarationList
       if (declList.flags & ts.NodeFlags.Const) keyword = 'val'
+      writeDocumentation(variable, writer)
       writer.writeLine(`${keyword} ${varName}: ${varType} = js.native`)
     })
 
     // Handle standalone function declarations
     exports.functions.forEach(func => {
       const functionName = func.name!.getText()
-      const params = func.parameters.map(p => {
-        const paramName = p.name.getText()
-        const paramType = p.type ? convertTypeToScala(p.type) : 'js.Any'
-        return `${paramName}: ${paramType}`
-      }).join(', ')
-      const returnType = func.type ? convertTypeToScala(func.type) : 'Unit'
-      emit(`def ${functionName}(${params}): ${returnType} = js.native`)
+      const returnType = convertReturnType(func.type, 'Unit')
+      emitFunction(func, convertParameters(func.parameters).map(params => `def ${functionName}(${params}): ${returnType} = js.native`))
     })
   })
   writer.newLine()